@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react'
+import { CreatureType, MAX_METRICS_SAMPLES, useSimulationStore } from '../store/simulationStore'
+import { SPECIES, SPECIES_IDS, TRACKED_TRAITS } from '../engine'
+import LineChart, { ChartSeries } from './charts/LineChart'
+import { downloadRunExport } from '../store/persistence'
+
+const INTERVAL_OPTIONS = [30, 60, 300, 600] // Ticks between samples
+
+const TRAIT_COLORS: Record<typeof TRACKED_TRAITS[number], string> = {
+  vision: '#60a5fa',
+  speed: '#34d399',
+  intelligence: '#c084fc',
+  hunger: '#facc15'
+}
+
+// The charts only mount while the panel is open, so a collapsed panel costs
+// nothing beyond the sampling itself
+const AnalyticsCharts: React.FC = () => {
+  const metrics = useSimulationStore(state => state.metrics)
+  const metricsInterval = useSimulationStore(state => state.metricsInterval)
+  const setMetricsInterval = useSimulationStore(state => state.setMetricsInterval)
+  const exportRun = useSimulationStore(state => state.exportRun)
+  const [traitSpecies, setTraitSpecies] = useState<CreatureType>('goose')
+
+  const charts = useMemo(() => ({
+    population: SPECIES_IDS.map((type): ChartSeries => ({
+      label: SPECIES[type].hudLabel,
+      color: SPECIES[type].hudColor,
+      values: metrics.map(sample => sample.population[type])
+    })),
+    births: [
+      { label: 'Births', color: '#4ade80', values: metrics.map(sample => sample.births) },
+      { label: 'Deaths', color: '#f87171', values: metrics.map(sample => sample.deaths) }
+    ],
+    food: [{ label: 'Available', color: '#a3e635', values: metrics.map(sample => sample.foodAvailable) }],
+    traits: TRACKED_TRAITS.map((trait): ChartSeries => ({
+      label: `${trait} (mean ± sd)`,
+      color: TRAIT_COLORS[trait],
+      values: metrics.map(sample => sample.traits[traitSpecies][trait].mean),
+      spread: metrics.map(sample => sample.traits[traitSpecies][trait].spread)
+    }))
+  }), [metrics, traitSpecies])
+
+  return (
+    <div className="max-h-[60vh] overflow-y-auto pr-1">
+      <div className="flex gap-2 mb-2 text-sm">
+        <select
+          value={metricsInterval}
+          onChange={(e) => setMetricsInterval(Number(e.target.value))}
+          className="bg-gray-700 text-white px-2 py-1 rounded text-sm border border-gray-600"
+          aria-label="Sample interval"
+        >
+          {INTERVAL_OPTIONS.map(ticks => (
+            <option key={ticks} value={ticks}>Every {ticks} ticks</option>
+          ))}
+        </select>
+        <span className="text-gray-300 self-center" title="Exports cover the whole run">
+          {metrics.length} samples (charts show the last {MAX_METRICS_SAMPLES})
+        </span>
+      </div>
+      <div className="flex gap-2 mb-2">
+        <button
+          onClick={() => downloadRunExport(exportRun(), 'csv')}
+          title="The whole run's metrics and per-creature records as two CSV files"
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-sm"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={() => downloadRunExport(exportRun(), 'json')}
+          title="The whole run's metrics and per-creature records as one JSON file"
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-sm"
+        >
+          Export JSON
+        </button>
+      </div>
+
+      <LineChart title="Population" series={charts.population} />
+      <LineChart title="Births / deaths per interval" series={charts.births} />
+      <LineChart title="Food available" series={charts.food} />
+
+      <div className="flex items-center gap-2 mt-3 mb-1 text-sm">
+        <span className="font-bold">Traits of</span>
+        <select
+          value={traitSpecies}
+          onChange={(e) => setTraitSpecies(e.target.value as CreatureType)}
+          className="bg-gray-700 text-white px-2 py-1 rounded text-sm border border-gray-600"
+        >
+          {SPECIES_IDS.map(type => (
+            <option key={type} value={type}>{SPECIES[type].hudLabel}</option>
+          ))}
+        </select>
+      </div>
+      {charts.traits.map(series => (
+        <LineChart key={series.label} title={series.label} series={[series]} />
+      ))}
+    </div>
+  )
+}
+
+// Collapsible panel of time series sampled every few ticks
+const AnalyticsPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="bg-black/50 text-white p-4 rounded-lg text-base w-[18rem]">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="font-bold text-lg w-full text-left"
+      >
+        {isOpen ? '▾' : '▸'} Analytics
+      </button>
+      {isOpen && <div className="mt-2"><AnalyticsCharts /></div>}
+    </div>
+  )
+}
+
+// Memoised so the HUD re-rendering every tick doesn't re-render the charts
+export default React.memo(AnalyticsPanel)
@@ -1,88 +1,86 @@
 import React, { Suspense, useMemo } from 'react'
-import Tree from './entities/Tree'
-import Tulip from './entities/Tulip'
+import { useGLTF } from '@react-three/drei'
+import InstancedScenery, { FoliageTint, SceneryInstance, SwaySettings, useSwayClock } from './entities/InstancedScenery'
+import { useModelVariants } from './entities/modelVariants'
+import { Environment as EnvironmentState, useSimulationStore } from '../store/simulationStore'
+import { regrowth } from '../engine'
 
-const Environment: React.FC = () => {
-  // Generate random positions and rotations
-  const { treePositions, treeRotations, treeScales, tulipPositions, tulipRotations, tulipScales } = useMemo(() => {
-    // Trees - random positions across the smaller ground area (64 trees = 32 * 2)
-    const treePositions: [number, number, number][] = Array.from({ length: 64 }, () => {
-      const angle = Math.random() * Math.PI * 2
-      const radius = 15 + Math.random() * 35 // Between 15-50 units from center
-      return [
-        Math.cos(angle) * radius,
-        3.5, // Fixed Y position
-        Math.sin(angle) * radius
-      ] as [number, number, number]
-    })
+const TWISTING_TREE_MODEL = '/models/low_poly_tree_with_twisting_branches.glb'
+const TREE_SET_MODEL = '/models/low_poly_tree_set.glb'
+const TULIP_MODEL = '/models/blue_tulips_low_poly.glb'
 
-    // Tulips - random positions across the smaller ground area (120 tulips = 60 * 2)
-    const tulipPositions: [number, number, number][] = Array.from({ length: 120 }, () => [
-      (Math.random() - 0.5) * 100, // -50 to 50
-      2.8, // Fixed Y position
-      (Math.random() - 0.5) * 100  // -50 to 50
-    ] as [number, number, number])
+const TREE_SET_SCALE = 4 // The tree set is modelled at about a quarter of the twisting tree's size
+const TWISTING_TREE_SHARE = 0.35 // Fraction of the forest using the twisting tree
 
-    // Random rotations for trees
-    const treeRotations: [number, number, number][] = Array.from({ length: 64 }, () => [
-      0,
-      Math.random() * Math.PI * 2, // Random Y rotation
-      0
-    ] as [number, number, number])
+// An eaten tulip is cut down to a stub and grows back to nearly full size
+// before it flowers again
+const TULIP_EATEN_SCALE = 0.25
+const TULIP_REGROWN_SCALE = 0.8
 
-    // Random rotations for tulips
-    const tulipRotations: [number, number, number][] = Array.from({ length: 120 }, () => [
-      0,
-      Math.random() * Math.PI * 2, // Random Y rotation
-      0
-    ] as [number, number, number])
+// Leaves through the year: fresh in spring, deep green in summer, turning in
+// autumn and frosted in winter
+const FOLIAGE: Record<EnvironmentState['season'], FoliageTint> = {
+  spring: { color: '#7ccf4a', amount: 0.2 },
+  summer: { color: '#2f6b1f', amount: 0.25 },
+  autumn: { color: '#c8641e', amount: 0.75 },
+  winter: { color: '#a3ada3', amount: 0.6 }
+}
 
-    // Random scales for trees (varying X and Z, fixed Y)
-    const treeScales: [number, number, number][] = Array.from({ length: 64 }, () => {
-      const scale = 0.6 + Math.random() * 0.6 // Between 0.6 and 1.2
-      return [scale, scale, scale] as [number, number, number]
-    })
+// Gentle swaying, done in the vertex shader
+const TREE_SWAY: SwaySettings = { speed: 0.6, amount: 0.008 }
+const TULIP_SWAY: SwaySettings = { speed: 1.5, amount: 0.05 }
 
-    // Fixed scales for tulips (all uniform)
-    const tulipScales: [number, number, number][] = Array.from({ length: 120 }, () => [
-      1.0, 1, 1.0
-    ] as [number, number, number])
+const Scenery: React.FC = () => {
+  const food = useSimulationStore(state => state.food)
+  const obstacles = useSimulationStore(state => state.obstacles)
+  const season = useSimulationStore(state => state.environment.season)
+  useSwayClock()
 
-    return {
-      treePositions,
-      treeRotations,
-      treeScales,
-      tulipPositions,
-      tulipRotations,
-      tulipScales
-    }
-  }, []) // Empty dependency array means this runs once on mount
+  const twistingTree = useModelVariants(TWISTING_TREE_MODEL, { grounded: true })
+  const treeSet = useModelVariants(TREE_SET_MODEL, { splitVariants: true, grounded: true, scale: TREE_SET_SCALE })
+  const tulips = useModelVariants(TULIP_MODEL, { grounded: true })
 
-  return (
-    <Suspense fallback={null}>
-      {/* Trees - fixed positions around the edges */}
-      {treePositions.map((position, i) => (
-        <Tree
-          key={`tree-${i}`}
-          position={position}
-          rotation={treeRotations[i]}
-          scale={treeScales[i]}
-        />
-      ))}
-      
-      {/* Tulips - fixed positions in clusters */}
-      {tulipPositions.map((position, i) => (
-        <Tulip
-          key={`tulip-${i}`}
-          position={position}
-          rotation={tulipRotations[i]}
-          scale={tulipScales[i]}
-        />
-      ))}
-      
+  // Variant 0 is the twisting tree, the rest come from the tree set
+  const treeVariants = useMemo(() => [...twistingTree, ...treeSet], [twistingTree, treeSet])
+
+  // Trees stand where the world's obstacles are, so creatures visibly walk
+  // around them. An obstacle's variant picks the model.
+  const trees = useMemo(() => obstacles.map((obstacle): SceneryInstance => ({
+    variant: obstacle.variant < TWISTING_TREE_SHARE
+      ? 0
+      : 1 + Math.min(treeSet.length - 1, Math.floor((obstacle.variant - TWISTING_TREE_SHARE) / (1 - TWISTING_TREE_SHARE) * treeSet.length)),
+    position: [obstacle.position.x, obstacle.position.y, obstacle.position.z],
+    rotationY: obstacle.rotationY,
+    scale: obstacle.scale
+  })), [obstacles, treeSet.length])
+
+  // Tulips are food: one per tulip item, cut down while eaten and growing back
+  const tulipInstances = useMemo(() => food
+    .filter(item => item.type === 'tulip')
+    .map((item): SceneryInstance => ({
+      variant: 0,
+      position: [item.position.x, item.position.y, item.position.z],
+      rotationY: (item.position.x * 12.9898 + item.position.z * 78.233) % (Math.PI * 2), // Fixed per tulip
+      scale: item.isAvailable ? 1 : TULIP_EATEN_SCALE + (TULIP_REGROWN_SCALE - TULIP_EATEN_SCALE) * regrowth(item)
+    })), [food])
 
-    </Suspense>
+  return (
+    <>
+      <InstancedScenery variants={treeVariants} instances={trees} sway={TREE_SWAY} foliage={FOLIAGE[season]} />
+      <InstancedScenery variants={tulips} instances={tulipInstances} sway={TULIP_SWAY} />
+    </>
   )
 }
 
-export default Environment 
\ No newline at end of file
+const Environment: React.FC = () => (
+  <Suspense fallback={null}>
+    <Scenery />
+  </Suspense>
+)
+
+export default Environment
+
+// Preload the models
+useGLTF.preload(TWISTING_TREE_MODEL)
+useGLTF.preload(TREE_SET_MODEL)
+useGLTF.preload(TULIP_MODEL)
@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react'
+import { useSimulationStore } from '../store/simulationStore'
+import { DEATH_CAUSE_LABELS, FamilyTreeNode, SPECIES, ancestorTree, countDescendants, descendantTree, indexLineage } from '../engine'
+
+// Generations shown each way from the selected creature
+const TREE_DEPTH = 3
+
+interface FamilyTreeProps {
+  creatureId: string
+}
+
+interface RelativeListProps {
+  nodes: FamilyTreeNode[]
+  onSelect: (id: string) => void
+}
+
+// One line per relative; dead ones are struck through, clicking selects
+const RelativeList: React.FC<RelativeListProps> = ({ nodes, onSelect }) => (
+  <ul className="pl-3 border-l border-gray-500">
+    {nodes.map(node => (
+      <li key={node.id}>
+        {node.creature ? (
+          <button
+            onClick={() => onSelect(node.id)}
+            className={`text-left text-sm hover:text-cyan-300 ${node.creature.isDead ? 'line-through text-gray-400' : ''}`}
+            title={node.creature.isDead ? `Died from ${node.creature.deathCause ? DEATH_CAUSE_LABELS[node.creature.deathCause] : 'unknown causes'}` : 'Alive'}
+          >
+            {node.creature.isDead ? '† ' : ''}{SPECIES[node.creature.type].name} {node.id} · gen {node.creature.generation}
+          </button>
+        ) : (
+          <span className="text-sm text-gray-500">{node.id} (gone)</span>
+        )}
+        {node.relatives.length > 0 && <RelativeList nodes={node.relatives} onSelect={onSelect} />}
+      </li>
+    ))}
+  </ul>
+)
+
+// Ancestors and descendants of one creature, a few generations each way
+const FamilyTree: React.FC<FamilyTreeProps> = ({ creatureId }) => {
+  const creatures = useSimulationStore(state => state.creatures)
+  const setSelectedEntity = useSimulationStore(state => state.setSelectedEntity)
+
+  const { creature, ancestors, descendants, counts } = useMemo(() => {
+    const index = indexLineage(creatures)
+    return {
+      creature: index.byId.get(creatureId),
+      ancestors: ancestorTree(index, creatureId, TREE_DEPTH).relatives,
+      descendants: descendantTree(index, creatureId, TREE_DEPTH).relatives,
+      counts: countDescendants(index, creatureId)
+    }
+  }, [creatures, creatureId])
+
+  if (!creature) return null
+
+  return (
+    <div className="mt-2 max-h-64 overflow-y-auto">
+      <div className="mb-1">Generation: {creature.generation}</div>
+      <div className="mb-1">Born: t={Math.round(creature.birthTime)}</div>
+      <div className="mb-2">Descendants: {counts.total} ({counts.alive} alive)</div>
+
+      <div className="font-bold text-sm">Ancestors</div>
+      {ancestors.length > 0
+        ? <RelativeList nodes={ancestors} onSelect={setSelectedEntity} />
+        : <div className="text-sm text-gray-400 mb-1">Founder</div>}
+
+      <div className="font-bold text-sm mt-2">Descendants</div>
+      {descendants.length > 0
+        ? <RelativeList nodes={descendants} onSelect={setSelectedEntity} />
+        : <div className="text-sm text-gray-400">None yet</div>}
+    </div>
+  )
+}
+
+export default FamilyTree
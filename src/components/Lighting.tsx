@@ -0,0 +1,108 @@
+import React from 'react'
+import { Sky, Stars } from '@react-three/drei'
+import * as THREE from 'three'
+import { useSimulationStore } from '../store/simulationStore'
+import { DAYLIGHT_SHARE, dayFraction, weatherLight } from '../engine'
+
+// Sun, moon and sky following the day/night cycle. The sun rises in the
+// east at sunrise, arcs overhead and sets in the west as night falls; the
+// moon sits opposite it. Whichever of the two is up is the key light that
+// casts shadows, so shadows swing round through the day.
+
+// Distance of the key light from the centre, and the half-size of its shadow
+// camera: enough to cover the 100×100 arena from any angle
+const LIGHT_DISTANCE = 80
+const SHADOW_EXTENT = 72
+
+// The sun's path leans south a little so it's never straight overhead
+const ARC_TILT = 0.35
+
+const SUN_INTENSITY = 1.3
+const MOON_INTENSITY = 0.3
+const DAY_AMBIENT = 0.5
+const NIGHT_AMBIENT = 0.12
+
+const HORIZON_SUN = new THREE.Color('#ff9a5a')
+const HIGH_SUN = new THREE.Color('#fff4e0')
+const MOONLIGHT = new THREE.Color('#a8b8ff')
+const DAY_AMBIENT_COLOR = new THREE.Color('#ffffff')
+const NIGHT_AMBIENT_COLOR = new THREE.Color('#4a5a8a')
+
+const MOON_DISTANCE = 400
+const MOON_RADIUS = 10
+
+// Below this sun elevation the stars come out
+const STARS_BELOW = 0.05
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)))
+  return t * t * (3 - 2 * t)
+}
+
+// Unit vector towards the sun. Over the day the angle goes from 0 (east
+// horizon) to π (west horizon); at night it carries on below the ground.
+const sunDirection = (fraction: number) => {
+  const angle = fraction < DAYLIGHT_SHARE
+    ? fraction / DAYLIGHT_SHARE * Math.PI
+    : Math.PI + (fraction - DAYLIGHT_SHARE) / (1 - DAYLIGHT_SHARE) * Math.PI
+  return new THREE.Vector3(Math.cos(angle), Math.sin(angle), ARC_TILT).normalize()
+}
+
+const Lighting: React.FC = () => {
+  const gameTime = useSimulationStore(state => state.gameTime)
+  const environment = useSimulationStore(state => state.environment)
+
+  const sun = sunDirection(dayFraction(gameTime))
+  const moon = sun.clone().negate()
+  const sunUp = sun.y > 0
+  const weather = weatherLight(environment)
+
+  // The key light is the sun by day and the moon by night, both fading out
+  // at the horizon so the handover is seamless
+  const key = sunUp ? sun : moon
+  const keyIntensity = sunUp
+    ? SUN_INTENSITY * smoothstep(0, 0.25, sun.y) * weather
+    : MOON_INTENSITY * smoothstep(0, 0.25, moon.y) * weather
+  const keyColor = sunUp ? HORIZON_SUN.clone().lerp(HIGH_SUN, smoothstep(0, 0.5, sun.y)) : MOONLIGHT
+
+  const daylight = smoothstep(-0.1, 0.3, sun.y)
+  const ambientIntensity = (NIGHT_AMBIENT + (DAY_AMBIENT - NIGHT_AMBIENT) * daylight) * (0.6 + 0.4 * weather)
+  const ambientColor = NIGHT_AMBIENT_COLOR.clone().lerp(DAY_AMBIENT_COLOR, daylight)
+
+  const keyPosition = key.clone().multiplyScalar(LIGHT_DISTANCE)
+  const moonPosition = moon.clone().multiplyScalar(MOON_DISTANCE)
+
+  return (
+    <>
+      <ambientLight intensity={ambientIntensity} color={ambientColor} />
+      <directionalLight
+        position={[keyPosition.x, keyPosition.y, keyPosition.z]}
+        intensity={keyIntensity}
+        color={keyColor}
+        castShadow
+        shadow-mapSize-width={2048}
+        shadow-mapSize-height={2048}
+        shadow-bias={-0.0005}
+        shadow-camera-near={1}
+        shadow-camera-far={LIGHT_DISTANCE * 2}
+        shadow-camera-left={-SHADOW_EXTENT}
+        shadow-camera-right={SHADOW_EXTENT}
+        shadow-camera-top={SHADOW_EXTENT}
+        shadow-camera-bottom={-SHADOW_EXTENT}
+      />
+
+      <Sky distance={450000} sunPosition={[sun.x, sun.y, sun.z]} />
+
+      {/* Moon and stars at night */}
+      {moon.y > -0.1 && (
+        <mesh position={[moonPosition.x, moonPosition.y, moonPosition.z]}>
+          <sphereGeometry args={[MOON_RADIUS, 24, 16]} />
+          <meshBasicMaterial color="#f4f1e1" fog={false} />
+        </mesh>
+      )}
+      {sun.y < STARS_BELOW && <Stars radius={300} depth={60} count={3000} factor={6} fade />}
+    </>
+  )
+}
+
+export default Lighting
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useSimulationStore } from '../store/simulationStore'
+import {
+  SaveSlotInfo,
+  downloadSnapshot,
+  listSlots,
+  nextAutosaveSlot,
+  readSlot,
+  readSnapshotFile,
+  writeSlot
+} from '../store/persistence'
+
+const AUTOSAVE_INTERVAL_MS = 30000 // Autosave every 30 real seconds
+
+const SaveLoadPanel: React.FC = () => {
+  const exportSnapshot = useSimulationStore(state => state.exportSnapshot)
+  const loadSnapshot = useSimulationStore(state => state.loadSnapshot)
+  const [slots, setSlots] = useState<SaveSlotInfo[]>(() => listSlots())
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Autosave into rotating localStorage slots while the world is running
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const { isPaused, creatures } = useSimulationStore.getState()
+      if (isPaused || creatures.length === 0) return
+      writeSlot(nextAutosaveSlot(), exportSnapshot())
+      setSlots(listSlots())
+    }, AUTOSAVE_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [exportSnapshot])
+
+  const handleLoadSlot = (slot: string) => {
+    try {
+      const snapshot = readSlot(slot)
+      if (snapshot) loadSnapshot(snapshot)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow importing the same file twice
+    if (!file) return
+    try {
+      loadSnapshot(await readSnapshotFile(file))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="bg-black/50 text-white p-4 rounded-lg text-base w-64">
+      <div className="font-bold mb-2 text-lg">World</div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadSnapshot(exportSnapshot())}
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-sm"
+        >
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1 bg-gray-600 hover:bg-gray-700 rounded text-sm"
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {slots.length > 0 && (
+        <div className="mt-3">
+          <div className="text-sm text-gray-300 mb-1">Autosaves</div>
+          {slots.map(info => (
+            <button
+              key={info.slot}
+              onClick={() => handleLoadSlot(info.slot)}
+              className="block w-full text-left px-2 py-1 mb-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+            >
+              {new Date(info.savedAt).toLocaleTimeString()} · t={Math.round(info.gameTime)} · {info.population} creatures
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="mt-2 text-xs text-red-300">{error}</div>}
+    </div>
+  )
+}
+
+export default SaveLoadPanel
@@ -1,47 +1,44 @@
 import React, { Suspense } from 'react'
 import { Canvas } from '@react-three/fiber'
-import { OrbitControls, Sky, Grid } from '@react-three/drei'
-import { useSimulationStore } from '../store/simulationStore'
-import Creature from './entities/Creature3D'
-import Food3D from './entities/Food3D'
+import { OrbitControls, Grid } from '@react-three/drei'
+import { CreatureType, Environment as EnvironmentState, useSimulationStore } from '../store/simulationStore'
+import { DEATH_CAUSE_LABELS, FOODS, SPECIES, SPECIES_IDS, ageOf, dateAt, lifeStage } from '../engine'
+import SpeciesInstances from './entities/SpeciesInstances'
+import FoodInstances from './entities/FoodInstances'
 import Environment from './Environment'
+import Weather from './Weather'
+import Lighting from './Lighting'
+import SaveLoadPanel from './SaveLoadPanel'
+import TimelineScrubber from './TimelineScrubber'
+import FamilyTree from './FamilyTree'
+import AnalyticsPanel from './AnalyticsPanel'
+
+// Food items the Add Food button scatters
+const ADD_FOOD_COUNT = 10
+
+// Ground colour through the year
+const GROUND_COLORS: Record<EnvironmentState['season'], string> = {
+  spring: '#4a7c59',
+  summer: '#5a8a3a',
+  autumn: '#7d7440',
+  winter: '#c9d3d6'
+}
 
 const Simulation3D: React.FC = () => {
   console.log('Simulation3D component rendering...')
   
-  const { creatures, food, environment, selectedEntity, setSelectedEntity, spawnCreature, addFood, initializeFood, speed, setSpeed, isPaused, togglePause, reset } = useSimulationStore()
+  const { creatures, food, environment, stats, gameTime, selectedEntity, setSelectedEntity, spawnCreature, scatterFood, speed, setSpeed, isPaused, togglePause, step, reset, seed, nextSeed, setSeed, worldGen, setWorldGen } = useSimulationStore()
   
-  // Initialize food when component mounts
-  React.useEffect(() => {
-    initializeFood()
-  }, [initializeFood])
+  // Species the spawn button adds
+  const [spawnType, setSpawnType] = React.useState<CreatureType>('goose')
+
+  // Whether the selected creature's family tree is expanded
+  const [showFamilyTree, setShowFamilyTree] = React.useState(false)
 
   console.log('Store state:', { creatures: creatures.length, food: food.length })
-  
-  // Function to initialize food from tulip positions
-  const initializeFoodFromTulips = () => {
-    // Import tulip positions from Environment component
-    const tulipPositions: [number, number, number][] = [
-      [3, 2.8, 4], [4, 2.8, 3], [2, 2.8, 5], [-3, 2.8, 6], [-4, 2.8, 5], [-2, 2.8, 4],
-      [7, 2.8, -3], [8, 2.8, -2], [6, 2.8, -4], [-7, 2.8, -5], [-8, 2.8, -4], [-6, 2.8, -6],
-      [0, 2.8, 8], [1, 2.8, 7], [-1, 2.8, 9],
-      [5, 2.8, 6], [6, 2.8, 5], [4, 2.8, 7], [-5, 2.8, 8], [-6, 2.8, 7], [-4, 2.8, 6],
-      [9, 2.8, -1], [10, 2.8, 0], [8, 2.8, -2], [-9, 2.8, -3], [-10, 2.8, -2], [-8, 2.8, -4],
-      [2, 2.8, 10], [3, 2.8, 9], [1, 2.8, 11]
-    ]
-    
-    tulipPositions.forEach(([x, y, z]) => {
-      addFood({
-        position: { x, y: -2.8, z }, // Position food at ground level
-        type: 'tulip',
-        isAvailable: true,
-        nutritionValue: 25,
-        respawnTime: 5000, // 5 seconds
-        lastEaten: 0
-      })
-    })
-  }
 
+  const date = dateAt(gameTime)
+  
   return (
     <div className="w-full h-full relative">
       <Canvas
@@ -55,28 +52,8 @@ const Simulation3D: React.FC = () => {
           console.error('Canvas error:', error)
         }}
       >
-        {/* Lighting */}
-        <ambientLight intensity={0.6} />
-        <directionalLight
-          position={[15, 15, 10]}
-          intensity={1.2}
-          castShadow
-          shadow-mapSize-width={2048}
-          shadow-mapSize-height={2048}
-          shadow-camera-far={100}
-          shadow-camera-left={-20}
-          shadow-camera-right={20}
-          shadow-camera-top={20}
-          shadow-camera-bottom={-20}
-        />
-        
-        {/* Environment */}
-        <Sky 
-          distance={450000} 
-          sunPosition={[0, 1, 0]} 
-          inclination={0} 
-          azimuth={0.25} 
-        />
+        {/* Sun, moon, sky and stars following the time of day */}
+        <Lighting />
         
         {/* Ground */}
         <Grid
@@ -96,11 +73,14 @@ const Simulation3D: React.FC = () => {
         
         {/* Environment with Trees, Tulips, and Grass */}
         <Environment />
+
+        {/* Clouds, rain and fog */}
+        <Weather />
         
         {/* Ground plane for shadows */}
         <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.1, 0]} receiveShadow>
           <planeGeometry args={[100, 100]} />
-          <meshStandardMaterial color="#4a7c59" />
+          <meshStandardMaterial color={GROUND_COLORS[environment.season]} />
         </mesh>
         
         {/* Walls around the ground */}
@@ -130,29 +110,19 @@ const Simulation3D: React.FC = () => {
         
 
         
-        {/* Creatures */}
-        <Suspense fallback={null}>
-          {creatures.filter(c => !c.isDead).map((creature) => (
-            <Creature
-              key={creature.id}
-              creature={creature}
-              isSelected={selectedEntity === creature.id}
-              onClick={() => setSelectedEntity(creature.id)}
+        {/* Creatures - one instanced draw per model part for the whole flock */}
+        {SPECIES_IDS.map(type => (
+          <Suspense key={type} fallback={null}>
+            <SpeciesInstances
+              species={SPECIES[type]}
+              selectedId={selectedEntity}
+              onSelect={setSelectedEntity}
             />
-          ))}
-        </Suspense>
+          </Suspense>
+        ))}
         
-        {/* Food */}
-        <Suspense fallback={null}>
-          {food.map((foodItem) => (
-            <Food3D
-              key={foodItem.id}
-              food={foodItem}
-              isSelected={selectedEntity === foodItem.id}
-              onClick={() => setSelectedEntity(foodItem.id)}
-            />
-          ))}
-        </Suspense>
+        {/* Food - one instanced draw per part of each food type's look */}
+        <FoodInstances selectedId={selectedEntity} onSelect={setSelectedEntity} />
         
 
         
@@ -170,11 +140,18 @@ const Simulation3D: React.FC = () => {
       {/* UI Overlay */}
       <div className="absolute top-4 left-4 bg-black/50 text-white p-4 rounded-lg text-base">
         <div className="font-bold mb-3 text-lg">WebGeese</div>
-        <div className="mb-1">Creatures: {creatures.filter(c => !c.isDead).length}</div>
+        {SPECIES_IDS.map(type => (
+          <div key={type} className="mb-1">
+            {SPECIES[type].hudLabel}: {creatures.filter(c => !c.isDead && c.type === type).length}
+          </div>
+        ))}
+        <div className="mb-1">Deaths: {stats.deaths.starvation} starved, {stats.deaths.predation} caught, {stats.deaths.oldAge} old age</div>
         <div className="mb-1">Food: {food.filter(f => f.isAvailable).length}/{food.length}</div>
         <div className="mt-3">
+          <div className="mb-1">Date: day {date.day} of {date.season}, year {date.year}</div>
           <div className="mb-1">Time: {environment.timeOfDay}</div>
-          <div className="mb-1">Weather: {environment.weather}</div>
+          <div className="mb-1">Weather: {environment.weather}, {environment.temperature.toFixed(0)}°C, {environment.humidity.toFixed(0)}% humidity</div>
+          <div className="mb-1">Seed: {seed}</div>
         </div>
         
         {/* Selected Creature Info */}
@@ -185,15 +162,35 @@ const Simulation3D: React.FC = () => {
               const creature = creatures.find(c => c.id === selectedEntity)!
               return (
                 <>
-                  <div className="mb-1">Type: {creature.type}</div>
+                  <div className="mb-1">Species: {SPECIES[creature.type].name}</div>
                   <div className="mb-1">State: {creature.state}</div>
+                  {creature.targetFoodId && (() => {
+                    const targetFood = food.find(f => f.id === creature.targetFoodId)
+                    return targetFood && <div className="mb-1">Target food: {FOODS[targetFood.type].name}</div>
+                  })()}
+                  {creature.deathCause && (
+                    <div className="mb-1">Cause of death: {DEATH_CAUSE_LABELS[creature.deathCause]}</div>
+                  )}
+                  <div className="mb-1">Health: {Math.round(creature.health)}%</div>
                   <div className="mb-1">Hunger: {Math.round(creature.hunger)}%</div>
+                  <div className="mb-1">Energy: {Math.round(creature.energy)}%</div>
+                  <div className="mb-1">Age: {Math.round(ageOf(creature, creature.deathTime ?? gameTime))} ({lifeStage(creature, creature.deathTime ?? gameTime)})</div>
+                  <div className="mb-1">Lifespan: {Math.round(creature.genome.lifespan)}</div>
                   <div className="mb-1">Vision: {Math.round(creature.vision)}</div>
                   <div className="mb-1">Speed: {Math.round(creature.speed)}</div>
                   <div className="mb-1">Intelligence: {Math.round(creature.intelligence)}</div>
+                  <div className="mb-1">Body size: {creature.genome.bodySize.toFixed(2)}</div>
+                  <div className="mb-1">Breeding cooldown: {Math.round(creature.genome.breedingCooldown)}</div>
                   {creature.state === 'breeding' && (
                     <div className="text-yellow-300 text-base">🦢 Breeding...</div>
                   )}
+                  <button
+                    onClick={() => setShowFamilyTree(!showFamilyTree)}
+                    className="mt-2 px-3 py-1 bg-gray-600 hover:bg-gray-700 rounded text-sm"
+                  >
+                    {showFamilyTree ? '▾' : '▸'} Family tree
+                  </button>
+                  {showFamilyTree && <FamilyTree creatureId={creature.id} />}
                 </>
               )
             })()}
@@ -201,19 +198,27 @@ const Simulation3D: React.FC = () => {
         )}
       </div>
       
-      {/* Speed Control */}
-      <div className="absolute top-4 right-4 bg-black/50 text-white p-4 rounded-lg text-base">
-        <div className="font-bold mb-2 text-lg">Speed</div>
-        <select 
-          value={speed} 
-          onChange={(e) => setSpeed(Number(e.target.value))}
-          className="bg-gray-700 text-white px-3 py-1 rounded text-sm border border-gray-600"
-        >
-          <option value={1}>x1</option>
-          <option value={2}>x2</option>
-          <option value={5}>x5</option>
-          <option value={10}>x10</option>
-        </select>
+      <div className="absolute top-4 right-4 flex flex-col items-end gap-3">
+        {/* Speed Control */}
+        <div className="bg-black/50 text-white p-4 rounded-lg text-base">
+          <div className="font-bold mb-2 text-lg">Speed</div>
+          <select 
+            value={speed} 
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="bg-gray-700 text-white px-3 py-1 rounded text-sm border border-gray-600"
+          >
+            <option value={1}>x1</option>
+            <option value={2}>x2</option>
+            <option value={5}>x5</option>
+            <option value={10}>x10</option>
+          </select>
+        </div>
+        
+        {/* Save / Load */}
+        <SaveLoadPanel />
+
+        {/* Charts */}
+        <AnalyticsPanel />
       </div>
       
       {/* Controls Info */}
@@ -223,20 +228,36 @@ const Simulation3D: React.FC = () => {
         <div className="mb-1">Scroll: Zoom</div>
         <div className="mb-1">Right click: Pan</div>
         <div className="mb-1">Click: Select entities</div>
+        <div className="mt-3 flex items-center gap-2">
+          <select
+            value={spawnType}
+            onChange={(e) => setSpawnType(e.target.value as CreatureType)}
+            className="bg-gray-700 text-white px-3 py-2 rounded text-sm border border-gray-600"
+          >
+            {SPECIES_IDS.map(type => (
+              <option key={type} value={type}>{SPECIES[type].name}</option>
+            ))}
+          </select>
+          <button 
+            onClick={() => spawnCreature(spawnType)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm"
+          >
+            Spawn {SPECIES[spawnType].name}
+          </button>
+        </div>
         <button 
-          onClick={spawnCreature}
-          className="mt-3 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm mr-3"
-        >
-          Spawn Creature
-        </button>
-        <button 
-          onClick={initializeFoodFromTulips}
+          onClick={() => scatterFood(ADD_FOOD_COUNT)}
           className="mt-3 px-4 py-2 bg-green-600 hover:bg-green-700 rounded text-sm"
         >
           Add Food
         </button>
       </div>
       
+      {/* Timeline Scrubber */}
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2">
+        <TimelineScrubber />
+      </div>
+      
       {/* Simulation Controls */}
       <div className="absolute bottom-4 right-4 bg-black/50 text-white p-4 rounded-lg text-base">
         <div className="font-bold mb-3 text-lg">Simulation</div>
@@ -251,6 +272,14 @@ const Simulation3D: React.FC = () => {
           >
             {isPaused ? '▶ Resume' : '⏸ Pause'}
           </button>
+          <button 
+            onClick={() => step()}
+            disabled={!isPaused}
+            title="Advance one tick while paused"
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-gray-600 rounded text-sm font-medium"
+          >
+            ⏭ Step
+          </button>
           <button 
             onClick={reset}
             className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-sm font-medium"
@@ -258,6 +287,40 @@ const Simulation3D: React.FC = () => {
             🔄 Reset
           </button>
         </div>
+        <div className="mt-3 flex items-center gap-2">
+          <label htmlFor="world-seed">Seed</label>
+          <input
+            id="world-seed"
+            type="number"
+            min={0}
+            value={nextSeed}
+            onChange={(e) => setSeed(Number(e.target.value))}
+            className="w-32 bg-gray-700 text-white px-2 py-1 rounded text-sm border border-gray-600"
+          />
+        </div>
+        <div className="mt-2 flex items-center gap-2">
+          <label htmlFor="world-trees">Trees</label>
+          <input
+            id="world-trees"
+            type="number"
+            min={0}
+            value={worldGen.trees}
+            onChange={(e) => setWorldGen({ trees: Math.max(0, Math.round(Number(e.target.value))) })}
+            className="w-16 bg-gray-700 text-white px-2 py-1 rounded text-sm border border-gray-600"
+          />
+          <label htmlFor="world-patches">Flower patches</label>
+          <input
+            id="world-patches"
+            type="number"
+            min={0}
+            value={worldGen.flowerPatches}
+            onChange={(e) => setWorldGen({ flowerPatches: Math.max(0, Math.round(Number(e.target.value))) })}
+            className="w-16 bg-gray-700 text-white px-2 py-1 rounded text-sm border border-gray-600"
+          />
+        </div>
+        <div className="mt-1 text-xs text-gray-300">
+          {nextSeed !== seed ? 'Seed and layout apply on next reset' : 'Layout applies on next reset'}
+        </div>
       </div>
     </div>
   )
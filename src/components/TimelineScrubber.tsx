@@ -0,0 +1,64 @@
+import React from 'react'
+import { useSimulationStore } from '../store/simulationStore'
+import { TICK_DELTA } from '../engine'
+
+// Scrub back through the recorded run, watch it replay, and branch a new
+// live run from any earlier frame
+const TimelineScrubber: React.FC = () => {
+  const gameTime = useSimulationStore(state => state.gameTime)
+  const timelineStart = useSimulationStore(state => state.timelineStart)
+  const timelineEnd = useSimulationStore(state => state.timelineEnd)
+  const replayIndex = useSimulationStore(state => state.replayIndex)
+  const scrubTo = useSimulationStore(state => state.scrubTo)
+  const branchFromReplay = useSimulationStore(state => state.branchFromReplay)
+  const exitReplay = useSimulationStore(state => state.exitReplay)
+
+  const isReplaying = replayIndex !== null
+
+  return (
+    <div className="bg-black/50 text-white p-4 rounded-lg text-base w-[28rem]">
+      <div className="flex items-center justify-between mb-2">
+        <div className="font-bold text-lg">Timeline</div>
+        {isReplaying ? (
+          <div className="text-yellow-300 text-sm font-medium">⏪ REPLAY</div>
+        ) : (
+          <div className="text-green-300 text-sm font-medium">● LIVE</div>
+        )}
+      </div>
+      <input
+        type="range"
+        min={timelineStart}
+        max={timelineEnd}
+        step={TICK_DELTA}
+        value={gameTime}
+        onChange={(e) => scrubTo(Number(e.target.value))}
+        className="w-full"
+        aria-label="Scrub timeline"
+      />
+      <div className="flex justify-between text-xs text-gray-300">
+        <span>t={Math.round(timelineStart)}</span>
+        <span>t={Math.round(gameTime)}</span>
+        <span>t={Math.round(timelineEnd)}</span>
+      </div>
+      {isReplaying && (
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={branchFromReplay}
+            title="Discard everything after this point and continue live from here"
+            className="px-3 py-1 bg-purple-600 hover:bg-purple-700 rounded text-sm"
+          >
+            Branch here
+          </button>
+          <button
+            onClick={exitReplay}
+            className="px-3 py-1 bg-gray-600 hover:bg-gray-700 rounded text-sm"
+          >
+            Back to live
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TimelineScrubber
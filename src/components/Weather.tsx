@@ -0,0 +1,136 @@
+import React, { useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { Environment, useSimulationStore } from '../store/simulationStore'
+import { createRng, deriveSeed } from '../utils/random'
+
+type WeatherKind = Environment['weather']
+
+// The weather as seen in the scene: cloud cover, rain and fog, all driven
+// by the simulation's environment
+
+// Clouds drift across a band above the arena and wrap around
+const CLOUD_COUNT = 16
+const CLOUD_HEIGHT = 35
+const CLOUD_SPREAD = 120
+const CLOUD_DRIFT = 1.5 // Units per second
+
+// How many of the clouds are out, and how dark they are
+const CLOUD_COVER: Record<WeatherKind, number> = { sunny: 3, cloudy: 12, rainy: 16, foggy: 6 }
+const CLOUD_COLOR: Record<WeatherKind, string> = { sunny: '#ffffff', cloudy: '#e5e7eb', rainy: '#9ca3af', foggy: '#d1d5db' }
+
+// Rain falls as short streaks over the arena, recycled from the top
+const RAIN_DROPS = 1500
+const RAIN_HEIGHT = 30
+const RAIN_SPEED = 25 // Units per second
+const RAIN_STREAK = 0.4
+
+// Fog closes in to these distances; light haze in the rain
+const FOG: Partial<Record<WeatherKind, { color: string; near: number; far: number }>> = {
+  foggy: { color: '#c7cdd3', near: 5, far: 45 },
+  rainy: { color: '#8a9099', near: 25, far: 110 }
+}
+
+// A cloud's puffs at scale 1: [x, y, z, radius]
+const PUFFS: [number, number, number, number][] = [[0, 0, 0, 3], [2.8, -0.4, 0.6, 2.2], [-2.6, -0.5, -0.4, 2.4], [0.8, 0.9, -0.8, 2]]
+
+const Clouds: React.FC<{ weather: WeatherKind }> = ({ weather }) => {
+  const seed = useSimulationStore(state => state.seed)
+  const groupRefs = useRef<(THREE.Group | null)[]>([])
+
+  // Seeded positions and sizes, so a world's sky looks the same every time
+  const clouds = useMemo(() => {
+    const rng = createRng(deriveSeed(seed, 'clouds'))
+    return Array.from({ length: CLOUD_COUNT }, () => ({
+      x: (rng.next() - 0.5) * CLOUD_SPREAD,
+      y: CLOUD_HEIGHT + rng.next() * 8,
+      z: (rng.next() - 0.5) * CLOUD_SPREAD,
+      scale: 0.8 + rng.next() * 0.8
+    }))
+  }, [seed])
+
+  useFrame((state) => {
+    const offset = state.clock.getElapsedTime() * CLOUD_DRIFT
+    groupRefs.current.forEach((group, i) => {
+      if (!group) return
+      // Wrap around so clouds leaving one side come back on the other
+      group.position.x = ((clouds[i].x + offset + CLOUD_SPREAD / 2) % CLOUD_SPREAD) - CLOUD_SPREAD / 2
+    })
+  })
+
+  return (
+    <group>
+      {clouds.slice(0, CLOUD_COVER[weather]).map((cloud, i) => (
+        <group
+          key={i}
+          ref={(group) => { groupRefs.current[i] = group }}
+          position={[cloud.x, cloud.y, cloud.z]}
+          scale={[cloud.scale * 1.4, cloud.scale * 0.6, cloud.scale]}
+        >
+          {PUFFS.map(([x, y, z, radius], j) => (
+            <mesh key={j} position={[x, y, z]}>
+              <sphereGeometry args={[radius, 10, 8]} />
+              <meshStandardMaterial color={CLOUD_COLOR[weather]} transparent opacity={0.9} />
+            </mesh>
+          ))}
+        </group>
+      ))}
+    </group>
+  )
+}
+
+const Rain: React.FC = () => {
+  const seed = useSimulationStore(state => state.seed)
+  const geometryRef = useRef<THREE.BufferGeometry>(null)
+
+  // Two vertices per drop: its head and the top of its streak. Seeded like
+  // the clouds.
+  const positions = useMemo(() => {
+    const rng = createRng(deriveSeed(seed, 'rain'))
+    const array = new Float32Array(RAIN_DROPS * 6)
+    for (let i = 0; i < RAIN_DROPS; i++) {
+      const x = (rng.next() - 0.5) * 100
+      const y = rng.next() * RAIN_HEIGHT
+      const z = (rng.next() - 0.5) * 100
+      array.set([x, y, z, x, y + RAIN_STREAK, z], i * 6)
+    }
+    return array
+  }, [seed])
+
+  useFrame((_, delta) => {
+    const geometry = geometryRef.current
+    if (!geometry) return
+    const fall = Math.min(delta, 0.1) * RAIN_SPEED
+    for (let i = 0; i < RAIN_DROPS; i++) {
+      let y = positions[i * 6 + 1] - fall
+      if (y < 0) y += RAIN_HEIGHT
+      positions[i * 6 + 1] = y
+      positions[i * 6 + 4] = y + RAIN_STREAK
+    }
+    geometry.attributes.position.needsUpdate = true
+  })
+
+  return (
+    <lineSegments key={seed} frustumCulled={false}>
+      <bufferGeometry ref={geometryRef}>
+        <bufferAttribute attach="attributes-position" count={RAIN_DROPS * 2} array={positions} itemSize={3} />
+      </bufferGeometry>
+      <lineBasicMaterial color="#a5c8e4" transparent opacity={0.6} />
+    </lineSegments>
+  )
+}
+
+const Weather: React.FC = () => {
+  const weather = useSimulationStore(state => state.environment.weather)
+  const fog = FOG[weather]
+
+  return (
+    <>
+      {fog && <fog attach="fog" args={[fog.color, fog.near, fog.far]} />}
+      <Clouds weather={weather} />
+      {weather === 'rainy' && <Rain />}
+    </>
+  )
+}
+
+export default Weather
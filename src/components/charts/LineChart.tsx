@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react'
+
+export interface ChartSeries {
+  label: string
+  color: string
+  values: number[]
+  spread?: number[] // Drawn as a band of ± spread around values
+}
+
+interface LineChartProps {
+  title: string
+  series: ChartSeries[]
+  width?: number
+  height?: number
+}
+
+const PADDING = 2
+
+// Minimal SVG line chart: one polyline per series, scaled to fit. Cheap
+// enough to redraw on every new sample.
+const LineChart: React.FC<LineChartProps> = ({ title, series, width = 260, height = 60 }) => {
+  const { lines, bands, max } = useMemo(() => {
+    const count = Math.max(0, ...series.map(s => s.values.length))
+    let max = 0
+    series.forEach(s => s.values.forEach((value, i) => {
+      max = Math.max(max, value + (s.spread?.[i] ?? 0))
+    }))
+    max = max || 1
+
+    const x = (i: number) => PADDING + (count > 1 ? i / (count - 1) : 0) * (width - PADDING * 2)
+    const y = (value: number) => height - PADDING - Math.max(0, Math.min(1, value / max)) * (height - PADDING * 2)
+    const point = (value: number, i: number) => `${x(i).toFixed(1)},${y(value).toFixed(1)}`
+
+    // Band outline: the upper edge left to right, then the lower edge back
+    const band = (values: number[], spread: number[]) => [
+      ...values.map((value, i) => point(value + spread[i], i)),
+      ...values.map((value, i) => point(value - spread[i], i)).reverse()
+    ].join(' ')
+
+    return {
+      max,
+      lines: series.map(s => s.values.map(point).join(' ')),
+      bands: series.map(s => s.spread ? band(s.values, s.spread) : null)
+    }
+  }, [series, width, height])
+
+  return (
+    <div className="mb-2">
+      <div className="flex justify-between text-xs text-gray-300">
+        <span className="font-bold">{title}</span>
+        <span>max {Math.round(max)}</span>
+      </div>
+      <svg width={width} height={height} className="bg-black/30 rounded">
+        {bands.map((band, i) => band && (
+          <polygon key={`band-${i}`} points={band} fill={series[i].color} opacity={0.2} />
+        ))}
+        {lines.map((line, i) => (
+          <polyline key={`line-${i}`} points={line} fill="none" stroke={series[i].color} strokeWidth={1.5} />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 text-xs">
+        {series.map(s => (
+          <span key={s.label} style={{ color: s.color }}>
+            {s.label}: {s.values.length > 0 ? Math.round(s.values[s.values.length - 1]) : '-'}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default LineChart
@@ -0,0 +1,190 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { ThreeEvent, useFrame } from '@react-three/fiber'
+import { Creature, CreatureType, useSimulationStore } from '../../store/simulationStore'
+import { ModelPart } from './modelVariants'
+import * as THREE from 'three'
+
+const PICK_RADIUS = 1 // Invisible sphere around each creature that takes clicks
+const BAR_WIDTH = 0.4
+
+interface CreatureInstancesProps {
+  type: CreatureType // Only creatures of this type are drawn
+  parts: ModelPart[] // Owned by this component from now on and disposed with it
+  tintByHunger?: boolean // Colour each instance by hunger instead of its own materials
+  selectedId: string | null
+  onSelect: (id: string) => void
+}
+
+// Hunger (or health) colour: red (0) -> yellow (50) -> green (100)
+export const hungerColor = (hunger: number, target: THREE.Color) =>
+  target.setHSL(Math.max(0, Math.min(100, hunger)) / 100 * (120 / 360), 1, 0.5)
+
+// Smallest power of two that fits the population, so buffers are
+// reallocated rarely as the flock grows
+const capacityFor = (count: number) => Math.max(256, 2 ** Math.ceil(Math.log2(count + 1)))
+
+// Draws every living creature of one type with one InstancedMesh per model
+// part. Transforms and colours are written straight from the store each
+// frame, so a tick does not re-render any React components here.
+const CreatureInstances: React.FC<CreatureInstancesProps> = ({ type, parts, tintByHunger = false, selectedId, onSelect }) => {
+  const population = useSimulationStore(state => state.creatures.length)
+  const capacity = capacityFor(population)
+
+  const partRefs = useRef<(THREE.InstancedMesh | null)[]>([])
+  const pickRef = useRef<THREE.InstancedMesh>(null)
+  const selectionRef = useRef<THREE.Group>(null)
+  const hungerBarRef = useRef<THREE.Mesh>(null)
+  const healthBarRef = useRef<THREE.Mesh>(null)
+  const energyBarRef = useRef<THREE.Mesh>(null)
+  const instanceIds = useRef<string[]>([]) // instanceId -> creature id for picking
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+
+  const pickGeometry = useMemo(() => new THREE.SphereGeometry(PICK_RADIUS, 8, 8), [])
+
+  useLayoutEffect(() => () => {
+    parts.forEach(part => {
+      part.geometry.dispose()
+      part.material.dispose()
+    })
+  }, [parts])
+
+  const scratch = useMemo(() => ({
+    matrix: new THREE.Matrix4(),
+    position: new THREE.Vector3(),
+    quaternion: new THREE.Quaternion(),
+    euler: new THREE.Euler(),
+    scale: new THREE.Vector3(),
+    color: new THREE.Color()
+  }), [])
+
+  useFrame((state) => {
+    const time = state.clock.getElapsedTime()
+    const creatures = useSimulationStore.getState().creatures
+    const { matrix, position, quaternion, euler, scale, color } = scratch
+    const ids = instanceIds.current
+    ids.length = 0
+    let selected: Creature | undefined
+
+    creatures.forEach((creature) => {
+      if (creature.isDead || creature.type !== type || ids.length >= capacity) return
+      const index = ids.length
+      ids.push(creature.id)
+      if (creature.id === selectedId) selected = creature
+
+      // Idle floating animation; resting creatures keep still
+      const floatOffset = creature.state === 'resting' ? 0 : Math.sin(time * 2 + creature.idleAnimation * Math.PI * 2) * 0.05
+      const hoverScale = creature.id === hoveredId ? 1.2 : 1
+      position.set(creature.position.x, creature.position.y + floatOffset, creature.position.z)
+      // Eating creatures dip forward to peck
+      const peck = creature.state === 'eating' ? Math.max(0, Math.sin(time * 8 + creature.idleAnimation * Math.PI * 2)) * 0.4 : 0
+      quaternion.setFromEuler(euler.set(creature.rotation.x + peck, creature.rotation.y, creature.rotation.z))
+      scale.set(creature.scale.x, creature.scale.y, creature.scale.z).multiplyScalar(hoverScale)
+      matrix.compose(position, quaternion, scale)
+
+      if (tintByHunger) hungerColor(creature.hunger, color)
+      partRefs.current.forEach(mesh => {
+        if (!mesh) return
+        mesh.setMatrixAt(index, matrix)
+        if (tintByHunger) mesh.setColorAt(index, color)
+      })
+      pickRef.current?.setMatrixAt(index, matrix)
+    })
+
+    partRefs.current.forEach(mesh => {
+      if (!mesh) return
+      mesh.count = ids.length
+      mesh.instanceMatrix.needsUpdate = true
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+    })
+    if (pickRef.current) {
+      pickRef.current.count = ids.length
+      pickRef.current.instanceMatrix.needsUpdate = true
+    }
+
+    // Fill a bar from the left, coloured red (0) to green (100)
+    const setBar = (bar: THREE.Mesh | null, value: number) => {
+      if (!bar) return
+      const ratio = Math.max(0.01, value / 100)
+      bar.scale.x = ratio
+      bar.position.x = -(BAR_WIDTH * (1 - ratio)) / 2
+      const barMaterial = bar.material as THREE.MeshBasicMaterial
+      barMaterial.color.copy(hungerColor(value, color))
+    }
+
+    // Only the selected creature gets an indicator and hunger, health and energy bars
+    if (selectionRef.current) {
+      selectionRef.current.visible = selected !== undefined
+      if (selected) {
+        selectionRef.current.position.set(selected.position.x, selected.position.y, selected.position.z)
+        setBar(hungerBarRef.current, selected.hunger)
+        setBar(healthBarRef.current, selected.health)
+        setBar(energyBarRef.current, selected.energy)
+      }
+    }
+  })
+
+  const idFromEvent = (event: ThreeEvent<PointerEvent | MouseEvent>) =>
+    event.instanceId !== undefined ? instanceIds.current[event.instanceId] : undefined
+
+  return (
+    <group>
+      {parts.map((part, i) => (
+        <instancedMesh
+          key={`${i}-${capacity}`}
+          ref={(mesh) => {
+            // Allocate instance colours up front so the shader is compiled
+            // with them even if the first frame has no creatures
+            if (tintByHunger && mesh && !mesh.instanceColor) {
+              mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3)
+            }
+            partRefs.current[i] = mesh
+          }}
+          args={[part.geometry, part.material, capacity]}
+          frustumCulled={false}
+          castShadow
+          receiveShadow
+        />
+      ))}
+
+      {/* Invisible, larger spheres that make creatures easy to click */}
+      <instancedMesh
+        key={`pick-${capacity}`}
+        ref={pickRef}
+        args={[pickGeometry, undefined, capacity]}
+        frustumCulled={false}
+        onClick={(event) => {
+          event.stopPropagation()
+          const id = idFromEvent(event)
+          if (id) onSelect(id)
+        }}
+        onPointerMove={(event) => setHoveredId(idFromEvent(event) ?? null)}
+        onPointerOut={() => setHoveredId(null)}
+      >
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+      </instancedMesh>
+
+      {/* Selection indicator */}
+      <group ref={selectionRef} visible={false}>
+        <mesh>
+          <sphereGeometry args={[0.5, 16, 16]} />
+          <meshBasicMaterial color="#00FFFF" transparent opacity={0.3} wireframe />
+        </mesh>
+        {/* Hunger on top, then health, then energy */}
+        {[hungerBarRef, healthBarRef, energyBarRef].map((barRef, i) => (
+          <group key={i} position={[0, 0.6 - i * 0.08, 0]}>
+            <mesh>
+              <boxGeometry args={[BAR_WIDTH, 0.05, 0.02]} />
+              <meshBasicMaterial color="#000000" transparent opacity={0.5} />
+            </mesh>
+            <mesh ref={barRef} position={[0, 0, 0.011]}>
+              <boxGeometry args={[BAR_WIDTH, 0.05, 0.02]} />
+              <meshBasicMaterial color="#00FF00" />
+            </mesh>
+          </group>
+        ))}
+      </group>
+    </group>
+  )
+}
+
+export default CreatureInstances
@@ -0,0 +1,201 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react'
+import { ThreeEvent } from '@react-three/fiber'
+import { Food, useSimulationStore } from '../../store/simulationStore'
+import { FOODS, FoodType, regrowth } from '../../engine'
+import * as THREE from 'three'
+
+const PICK_RADIUS = 0.3 // Invisible sphere around each food item that takes clicks
+
+interface FoodInstancesProps {
+  selectedId: string | null
+  onSelect: (id: string) => void
+}
+
+const EATEN_COLOR = '#7c6f4f' // Stubble and bare twigs left after eating
+const BUSH_COLOR = '#2f5d34'
+
+// Fixed offsets so every patch of a type looks the same
+const GRASS_BLADES: [number, number, number][] = [[0, 0, 0], [0.12, 0, 0.06], [-0.1, 0, 0.08], [0.04, 0, -0.12], [-0.06, 0, -0.06]]
+const BERRIES: [number, number, number][] = [[0.2, 0.25, 0.1], [-0.15, 0.3, 0.15], [0.05, 0.4, -0.18], [-0.2, 0.18, -0.1], [0.18, 0.12, -0.15]]
+const SEEDS: [number, number, number][] = [[0, 0.03, 0], [0.15, 0.03, 0.05], [-0.12, 0.03, 0.1], [0.06, 0.03, -0.14], [-0.1, 0.03, -0.08], [0.18, 0.03, -0.1]]
+
+// One copy of a part on one food item, relative to the item's position
+interface FoodPiece {
+  offset: [number, number, number]
+  rotationZ?: number
+  scale?: [number, number, number]
+  color: string
+}
+
+// A shape shared by every item that uses it, drawn as one InstancedMesh
+interface FoodPart {
+  geometry: THREE.BufferGeometry
+  castShadow?: boolean
+  receiveShadow?: boolean
+  pieces: (food: Food, growth: number) => FoodPiece[] // growth: 0 just eaten to 1 ready to eat
+}
+
+const bladeGeometry = new THREE.ConeGeometry(0.05, 0.4, 4)
+const bushGeometry = new THREE.SphereGeometry(0.3, 8, 6)
+const berryGeometry = new THREE.SphereGeometry(0.07, 6, 4)
+const seedGeometry = new THREE.SphereGeometry(0.04, 5, 4)
+
+// Each food type's look, built from primitives on the ground. Eaten food
+// shows as stubble, bare twigs or nothing and grows back visibly. Tulips are
+// drawn instanced with the scenery (see Environment), so their food items
+// only need to be clickable.
+const FOOD_LOOKS: Record<FoodType, FoodPart[]> = {
+  grass: [{
+    geometry: bladeGeometry,
+    castShadow: true,
+    pieces: (food, growth) => {
+      const height = food.isAvailable ? 1 : 0.3 + 0.5 * growth
+      return GRASS_BLADES.map((offset, i) => ({
+        offset: [offset[0], 0.2 * height, offset[2]],
+        rotationZ: (i - 2) * 0.15,
+        scale: [1, height, 1],
+        color: food.isAvailable ? FOODS.grass.color : EATEN_COLOR
+      }))
+    }
+  }],
+  berries: [
+    {
+      geometry: bushGeometry,
+      castShadow: true,
+      receiveShadow: true,
+      pieces: (food) => [{ offset: [0, 0.25, 0], color: food.isAvailable ? BUSH_COLOR : EATEN_COLOR }]
+    },
+    {
+      geometry: berryGeometry,
+      pieces: (food, growth) => BERRIES
+        .slice(0, food.isAvailable ? BERRIES.length : Math.floor(growth * BERRIES.length))
+        .map(offset => ({ offset, scale: food.isAvailable ? [1, 1, 1] : [0.6, 0.6, 0.6], color: FOODS.berries.color }))
+    }
+  ],
+  seeds: [{
+    geometry: seedGeometry,
+    pieces: (food) => food.isAvailable ? SEEDS.map(offset => ({ offset, color: FOODS.seeds.color })) : []
+  }],
+  tulip: []
+}
+
+const PARTS = Object.values(FOOD_LOOKS).flat()
+const PART_TYPES = (Object.keys(FOOD_LOOKS) as FoodType[]).flatMap(type => FOOD_LOOKS[type].map(() => type))
+
+// Smallest power of two that fits, so buffers are reallocated rarely as
+// food spreads
+const capacityFor = (count: number) => Math.max(64, 2 ** Math.ceil(Math.log2(count + 1)))
+
+// Draws all food with one InstancedMesh per part of each type's look, plus
+// one of invisible spheres for picking. Food only changes between ticks, so
+// instances are rewritten when the store's food does rather than each frame.
+const FoodInstances: React.FC<FoodInstancesProps> = ({ selectedId, onSelect }) => {
+  const food = useSimulationStore(state => state.food)
+
+  const partRefs = useRef<(THREE.InstancedMesh | null)[]>([])
+  const pickRef = useRef<THREE.InstancedMesh>(null)
+
+  const pickGeometry = useMemo(() => new THREE.SphereGeometry(PICK_RADIUS, 8, 8), [])
+  const material = useMemo(() => new THREE.MeshStandardMaterial(), [])
+
+  useLayoutEffect(() => () => {
+    pickGeometry.dispose()
+    material.dispose()
+  }, [pickGeometry, material])
+
+  // Every part's pieces for every item, grouped by part
+  const pieces = useMemo(() => PARTS.map((part, i) => food
+    .filter(item => item.type === PART_TYPES[i])
+    .flatMap(item => part.pieces(item, regrowth(item)).map(piece => ({ item, piece })))
+  ), [food])
+
+  const pickCapacity = capacityFor(food.length)
+  const capacities = pieces.map(list => capacityFor(list.length))
+
+  useLayoutEffect(() => {
+    const matrix = new THREE.Matrix4()
+    const position = new THREE.Vector3()
+    const quaternion = new THREE.Quaternion()
+    const euler = new THREE.Euler()
+    const scale = new THREE.Vector3()
+    const color = new THREE.Color()
+
+    pieces.forEach((list, i) => {
+      const mesh = partRefs.current[i]
+      if (!mesh) return
+      list.forEach(({ item, piece }, index) => {
+        const [x, y, z] = piece.offset
+        position.set(item.position.x + x, item.position.y + y, item.position.z + z)
+        quaternion.setFromEuler(euler.set(0, 0, piece.rotationZ ?? 0))
+        scale.set(...(piece.scale ?? [1, 1, 1]))
+        mesh.setMatrixAt(index, matrix.compose(position, quaternion, scale))
+        mesh.setColorAt(index, color.set(piece.color))
+      })
+      mesh.count = list.length
+      mesh.instanceMatrix.needsUpdate = true
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+    })
+
+    const pick = pickRef.current
+    if (pick) {
+      matrix.identity()
+      food.forEach((item, index) => {
+        pick.setMatrixAt(index, matrix.setPosition(item.position.x, item.position.y, item.position.z))
+      })
+      pick.count = food.length
+      pick.instanceMatrix.needsUpdate = true
+    }
+  }, [pieces, food])
+
+  const selected = selectedId ? food.find(item => item.id === selectedId) : undefined
+
+  const idFromEvent = (event: ThreeEvent<MouseEvent>) =>
+    event.instanceId !== undefined ? food[event.instanceId]?.id : undefined
+
+  return (
+    <group>
+      {PARTS.map((part, i) => (
+        <instancedMesh
+          key={`${i}-${capacities[i]}`}
+          ref={(mesh) => {
+            // Allocate instance colours up front so the shader is compiled
+            // with them even if the first render has no pieces
+            if (mesh && !mesh.instanceColor) {
+              mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacities[i] * 3), 3)
+            }
+            partRefs.current[i] = mesh
+          }}
+          args={[part.geometry, material, capacities[i]]}
+          frustumCulled={false}
+          castShadow={part.castShadow}
+          receiveShadow={part.receiveShadow}
+        />
+      ))}
+
+      {/* Invisible spheres that take clicks */}
+      <instancedMesh
+        key={`pick-${pickCapacity}`}
+        ref={pickRef}
+        args={[pickGeometry, undefined, pickCapacity]}
+        frustumCulled={false}
+        onClick={(event) => {
+          event.stopPropagation()
+          const id = idFromEvent(event)
+          if (id) onSelect(id)
+        }}
+      >
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+      </instancedMesh>
+
+      {/* Selection indicator */}
+      {selected && (
+        <mesh position={[selected.position.x, selected.position.y, selected.position.z]}>
+          <ringGeometry args={[0.4, 0.5, 8]} />
+          <meshStandardMaterial color="#FFFF00" />
+        </mesh>
+      )}
+    </group>
+  )
+}
+
+export default FoodInstances
@@ -0,0 +1,139 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { ModelVariant } from './modelVariants'
+
+export interface SceneryInstance {
+  variant: number // Index into the variants array
+  position: [number, number, number]
+  rotationY: number
+  scale: number
+}
+
+// Blend of the green (foliage) parts of a model towards a colour, e.g. for
+// the seasons
+export interface FoliageTint {
+  color: string
+  amount: number // 0 keeps the model's own colours, 1 is fully the tint
+}
+
+export interface SwaySettings {
+  speed: number // Radians per second
+  amount: number // Horizontal displacement per unit of height
+}
+
+interface InstancedSceneryProps {
+  variants: ModelVariant[]
+  instances: SceneryInstance[]
+  sway: SwaySettings
+  foliage?: FoliageTint
+}
+
+// Shared clock for every swaying material; advanced by useSwayClock
+const swayTime = { value: 0 }
+
+// Call once per scene: one frame callback drives the sway of all scenery
+export const useSwayClock = () => {
+  useFrame((state) => {
+    swayTime.value = state.clock.getElapsedTime()
+  })
+}
+
+// Bend vertices sideways in proportion to their height so trunks stay put
+// and crowns sway. Each instance gets its own phase from its world position.
+const applySway = (material: THREE.Material, sway: SwaySettings) => {
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.uSwayTime = swayTime
+    shader.uniforms.uSwaySpeed = { value: sway.speed }
+    shader.uniforms.uSwayAmount = { value: sway.amount }
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>
+uniform float uSwayTime;
+uniform float uSwaySpeed;
+uniform float uSwayAmount;`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>
+#ifdef USE_INSTANCING
+float swayPhase = instanceMatrix[3].x * 0.37 + instanceMatrix[3].z * 0.71;
+#else
+float swayPhase = 0.0;
+#endif
+float swayHeight = max(position.y, 0.0);
+transformed.x += sin(uSwayTime * uSwaySpeed + swayPhase) * uSwayAmount * swayHeight;
+transformed.z += cos(uSwayTime * uSwaySpeed * 0.8 + swayPhase) * uSwayAmount * 0.5 * swayHeight;`)
+  }
+  return material
+}
+
+// Parts coloured mostly green count as foliage
+const isFoliage = (material: THREE.Material): material is THREE.MeshStandardMaterial =>
+  material instanceof THREE.MeshStandardMaterial && material.color.g > material.color.r && material.color.g > material.color.b
+
+// One InstancedMesh per variant part: the whole forest costs one draw call
+// per part of each variant in use, however many trees there are
+const InstancedScenery: React.FC<InstancedSceneryProps> = ({ variants, instances, sway, foliage }) => {
+  const meshRefs = useRef<(THREE.InstancedMesh | null)[][]>([])
+
+  // Instances grouped by variant
+  const groups = useMemo(() => variants.map((_, variantIndex) =>
+    instances.filter(instance => instance.variant === variantIndex)
+  ), [variants, instances])
+
+  const materials = useMemo(() => variants.map(variant =>
+    variant.parts.map(part => applySway(part.material.clone(), sway))
+  ), [variants, sway])
+
+  useLayoutEffect(() => () => {
+    materials.flat().forEach(material => material.dispose())
+  }, [materials])
+
+  // Tint foliage from the model's own colours, so changing tints never drift
+  useLayoutEffect(() => {
+    const tint = new THREE.Color(foliage?.color ?? '#ffffff')
+    variants.forEach((variant, variantIndex) => variant.parts.forEach((part, partIndex) => {
+      const material = materials[variantIndex][partIndex]
+      if (!isFoliage(part.material) || !(material instanceof THREE.MeshStandardMaterial)) return
+      material.color.copy(part.material.color).lerp(tint, foliage?.amount ?? 0)
+    }))
+  }, [variants, materials, foliage])
+
+  useLayoutEffect(() => {
+    const matrix = new THREE.Matrix4()
+    const quaternion = new THREE.Quaternion()
+    const up = new THREE.Vector3(0, 1, 0)
+    const position = new THREE.Vector3()
+    const scale = new THREE.Vector3()
+
+    groups.forEach((group, variantIndex) => {
+      meshRefs.current[variantIndex]?.forEach(mesh => {
+        if (!mesh) return
+        group.forEach((instance, i) => {
+          quaternion.setFromAxisAngle(up, instance.rotationY)
+          position.set(...instance.position)
+          scale.setScalar(instance.scale)
+          mesh.setMatrixAt(i, matrix.compose(position, quaternion, scale))
+        })
+        mesh.instanceMatrix.needsUpdate = true
+      })
+    })
+  }, [groups])
+
+  return (
+    <group>
+      {variants.map((variant, variantIndex) => groups[variantIndex].length > 0 && variant.parts.map((part, partIndex) => (
+        <instancedMesh
+          key={`${variantIndex}-${partIndex}-${groups[variantIndex].length}`}
+          ref={(mesh) => {
+            meshRefs.current[variantIndex] = meshRefs.current[variantIndex] ?? []
+            meshRefs.current[variantIndex][partIndex] = mesh
+          }}
+          args={[part.geometry, materials[variantIndex][partIndex], groups[variantIndex].length]}
+          frustumCulled={false}
+          castShadow
+          receiveShadow
+        />
+      )))}
+    </group>
+  )
+}
+
+export default InstancedScenery
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react'
+import { useGLTF } from '@react-three/drei'
+import * as THREE from 'three'
+import CreatureInstances from './CreatureInstances'
+import { ModelPart, useModelVariants } from './modelVariants'
+import { createFoxParts } from './foxModel'
+import { SPECIES, SpeciesDefinition } from '../../engine'
+
+// Models built in code, by the name species use in model.procedural
+const PROCEDURAL_MODELS: Record<string, () => ModelPart[]> = {
+  fox: createFoxParts
+}
+
+interface SpeciesInstancesProps {
+  species: SpeciesDefinition
+  selectedId: string | null
+  onSelect: (id: string) => void
+}
+
+// Materials get a white base colour so per-instance colour shows through
+const whitenMaterials = (parts: ModelPart[]) => parts.map(part => {
+  const material = part.material
+  if (material instanceof THREE.MeshStandardMaterial || material instanceof THREE.MeshBasicMaterial) {
+    material.color.set('#ffffff')
+  }
+  return part
+})
+
+const GltfSpeciesInstances: React.FC<SpeciesInstancesProps & { path: string }> = ({ species, path, selectedId, onSelect }) => {
+  const [model] = useModelVariants(path, { scale: species.model.scale })
+  const parts = useMemo(
+    () => species.model.tintByHunger ? whitenMaterials(model.parts) : model.parts,
+    [model, species.model.tintByHunger]
+  )
+  return (
+    <CreatureInstances
+      type={species.id}
+      parts={parts}
+      tintByHunger={species.model.tintByHunger}
+      selectedId={selectedId}
+      onSelect={onSelect}
+    />
+  )
+}
+
+const ProceduralSpeciesInstances: React.FC<SpeciesInstancesProps & { build: () => ModelPart[] }> = ({ species, build, selectedId, onSelect }) => {
+  const parts = useMemo(() => {
+    const built = build()
+    const scale = species.model.scale
+    if (scale !== 1) built.forEach(part => part.geometry.scale(scale, scale, scale))
+    return species.model.tintByHunger ? whitenMaterials(built) : built
+  }, [build, species.model.scale, species.model.tintByHunger])
+  return (
+    <CreatureInstances
+      type={species.id}
+      parts={parts}
+      tintByHunger={species.model.tintByHunger}
+      selectedId={selectedId}
+      onSelect={onSelect}
+    />
+  )
+}
+
+// Draws one species with the model its registry entry names
+const SpeciesInstances: React.FC<SpeciesInstancesProps> = (props) => {
+  const { path, procedural } = props.species.model
+  if (path) return <GltfSpeciesInstances {...props} path={path} />
+  const build = procedural ? PROCEDURAL_MODELS[procedural] : undefined
+  if (!build) {
+    console.warn(`No model for species ${props.species.id}`)
+    return null
+  }
+  return <ProceduralSpeciesInstances {...props} build={build} />
+}
+
+export default SpeciesInstances
+
+// Preload every species model
+Object.values(SPECIES).forEach(species => {
+  if (species.model.path) useGLTF.preload(species.model.path)
+})
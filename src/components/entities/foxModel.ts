@@ -0,0 +1,57 @@
+import * as THREE from 'three'
+import { ModelPart } from './modelVariants'
+
+// There is no fox GLB yet, so the fox is assembled from primitives in the
+// same shape useModelVariants returns: one part per primitive, standing on
+// y = 0 and facing +Z like the other creatures. About as tall as a goose.
+
+const FUR = '#d2691e'
+const CHEST = '#f5f0e6'
+const DARK = '#3b2417'
+
+interface Piece {
+  geometry: THREE.BufferGeometry
+  color: string
+  position: [number, number, number]
+  rotation?: [number, number, number]
+}
+
+const pieces = (): Piece[] => [
+  // Body, lying along Z
+  { geometry: new THREE.CapsuleGeometry(0.17, 0.5, 4, 8), color: FUR, position: [0, 0.4, 0], rotation: [Math.PI / 2, 0, 0] },
+  { geometry: new THREE.SphereGeometry(0.13, 8, 6), color: CHEST, position: [0, 0.36, 0.3] },
+
+  // Head, snout and ears
+  { geometry: new THREE.SphereGeometry(0.15, 10, 8), color: FUR, position: [0, 0.6, 0.42] },
+  { geometry: new THREE.ConeGeometry(0.07, 0.22, 8), color: CHEST, position: [0, 0.56, 0.62], rotation: [Math.PI / 2, 0, 0] },
+  { geometry: new THREE.SphereGeometry(0.025, 6, 4), color: DARK, position: [0, 0.56, 0.73] },
+  { geometry: new THREE.ConeGeometry(0.05, 0.14, 6), color: FUR, position: [-0.08, 0.78, 0.4] },
+  { geometry: new THREE.ConeGeometry(0.05, 0.14, 6), color: FUR, position: [0.08, 0.78, 0.4] },
+
+  // Legs
+  ...[[-0.09, 0.24], [0.09, 0.24], [-0.09, -0.24], [0.09, -0.24]].map(([x, z]): Piece => ({
+    geometry: new THREE.CylinderGeometry(0.04, 0.035, 0.3, 6), color: DARK, position: [x, 0.15, z]
+  })),
+
+  // Bushy tail with a white tip, pointing back and up
+  { geometry: new THREE.CapsuleGeometry(0.08, 0.35, 4, 8), color: FUR, position: [0, 0.5, -0.48], rotation: [-Math.PI / 3, 0, 0] },
+  { geometry: new THREE.SphereGeometry(0.08, 8, 6), color: CHEST, position: [0, 0.66, -0.64] }
+]
+
+export const createFoxParts = (): ModelPart[] => {
+  const materials = new Map<string, THREE.MeshStandardMaterial>()
+  const materialFor = (color: string) => {
+    if (!materials.has(color)) materials.set(color, new THREE.MeshStandardMaterial({ color, roughness: 0.8 }))
+    return materials.get(color)!
+  }
+
+  return pieces().map(({ geometry, color, position, rotation = [0, 0, 0] }) => {
+    const transform = new THREE.Matrix4().compose(
+      new THREE.Vector3(...position),
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(...rotation)),
+      new THREE.Vector3(1, 1, 1)
+    )
+    geometry.applyMatrix4(transform)
+    return { geometry, material: materialFor(color) }
+  })
+}
@@ -0,0 +1,76 @@
+import { useMemo } from 'react'
+import { useGLTF } from '@react-three/drei'
+import * as THREE from 'three'
+
+// Turn a loaded GLB into plain geometry/material pairs ready for instancing.
+// Node transforms are baked into cloned geometry once, so instances never
+// clone the scene graph.
+
+export interface ModelPart {
+  geometry: THREE.BufferGeometry
+  material: THREE.Material
+}
+
+export interface ModelVariant {
+  name: string
+  parts: ModelPart[]
+  size: THREE.Vector3 // Bounding box size after scaling
+}
+
+export interface ModelVariantOptions {
+  scale?: number // Uniform scale baked into the geometry
+  splitVariants?: boolean // Treat each child of the model's root node as its own variant
+  grounded?: boolean // Centre each variant on X/Z and stand it on y = 0
+}
+
+const extractParts = (object: THREE.Object3D, bake: THREE.Matrix4): ModelPart[] => {
+  const parts: ModelPart[] = []
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return
+    const geometry = (child.geometry as THREE.BufferGeometry).clone()
+    geometry.applyMatrix4(new THREE.Matrix4().multiplyMatrices(bake, child.matrixWorld))
+    const material = (Array.isArray(child.material) ? child.material[0] : child.material).clone()
+    parts.push({ geometry, material })
+  })
+  return parts
+}
+
+const boundsOf = (parts: ModelPart[]) => {
+  const box = new THREE.Box3()
+  parts.forEach(part => {
+    part.geometry.computeBoundingBox()
+    box.union(part.geometry.boundingBox!)
+  })
+  return box
+}
+
+export const extractVariants = (scene: THREE.Object3D, options: ModelVariantOptions = {}): ModelVariant[] => {
+  const { scale = 1, splitVariants = false, grounded = false } = options
+  const bake = new THREE.Matrix4().makeScale(scale, scale, scale)
+  scene.updateMatrixWorld(true)
+
+  // Sketchfab exports wrap the real content in a chain of single-child nodes
+  let root = scene
+  while (root.children.length === 1) root = root.children[0]
+  const variantRoots = splitVariants ? root.children : [scene]
+
+  return variantRoots.map((variantRoot) => {
+    const parts = extractParts(variantRoot, bake)
+    const box = boundsOf(parts)
+    if (grounded) {
+      const center = box.getCenter(new THREE.Vector3())
+      const offset = new THREE.Matrix4().makeTranslation(-center.x, -box.min.y, -center.z)
+      parts.forEach(part => part.geometry.applyMatrix4(offset))
+    }
+    return { name: variantRoot.name, parts, size: box.getSize(new THREE.Vector3()) }
+  }).filter(variant => variant.parts.length > 0)
+}
+
+export const useModelVariants = (path: string, options: ModelVariantOptions = {}): ModelVariant[] => {
+  const { scene } = useGLTF(path)
+  const { scale, splitVariants, grounded } = options
+  return useMemo(
+    () => extractVariants(scene, { scale, splitVariants, grounded }),
+    [scene, scale, splitVariants, grounded]
+  )
+}
@@ -0,0 +1,114 @@
+import { Creature } from './types'
+import { TickContext } from './context'
+import { getSpecies } from './species'
+import { crossover, expressGenome, mutate } from './genetics'
+import { BABY_GROWTH, isAdult } from './life'
+import { isExhausted } from './energy'
+import { effectiveVision } from './weather'
+import { seasonAt } from './clock'
+
+// Breeding, shared by every species. Two full creatures of the same species
+// pair up, breed for the species' duration, and the one that finishes first
+// gives birth to a baby whose genome mixes both parents'. Ranges and
+// mutation rates come from the registry; cooldowns are genes.
+
+// Only adults with energy to spare breed, only in their species' breeding
+// season, and only once their cooldown is over
+export const canBreed = (creature: Creature, now: number) => {
+  const { breeding } = getSpecies(creature.type)
+  return breeding.enabled && breeding.seasons.includes(seasonAt(now)) && isAdult(creature, now) && !isExhausted(creature) &&
+    now - creature.lastBreedingTime > creature.breedingCooldown
+}
+
+// The first full creature of the same species within breeding range that
+// can breed too
+export const findMate = (creature: Creature, ctx: TickContext): Creature | undefined => {
+  const range = getSpecies(creature.type).breeding.range * (effectiveVision(creature, ctx.environment) / 100)
+  for (const id of ctx.creatureIndex.query(creature.position.x, creature.position.z, range)) {
+    if (id === creature.id) continue
+    const other = ctx.getCreature(id)
+    if (other.type === creature.type && !other.isDead && other.state === 'full' && canBreed(other, ctx.now)) return other
+  }
+  return undefined
+}
+
+export const startBreeding = (creature: Creature, partner: Creature, ctx: TickContext) => {
+  const updates: Partial<Creature> = {
+    state: 'breeding',
+    lastStateChange: ctx.now,
+    isMoving: false,
+    targetPosition: undefined
+  }
+  ctx.updateCreature(creature.id, { ...updates, mateId: partner.id })
+  ctx.updateCreature(partner.id, { ...updates, mateId: creature.id })
+  ctx.events.push({ type: 'breedingStarted', time: ctx.now, creatureId: creature.id, partnerId: partner.id })
+}
+
+export const breedingFinished = (creature: Creature, now: number) =>
+  now - creature.lastStateChange >= getSpecies(creature.type).breeding.duration
+
+// Add the baby and reset both parents. settle gives the state a creature
+// with the given hunger returns to. Returns the creature's own new hunger;
+// the caller applies it along with settle's state. A mate that left (fled or
+// died) means no baby, and no cooldown either.
+export const finishBreeding = (
+  creature: Creature,
+  ctx: TickContext,
+  settle: (hunger: number) => Creature['state']
+): number => {
+  const { now, rng, ids } = ctx
+  const { breeding, genetics } = getSpecies(creature.type)
+  const mate = creature.mateId ? ctx.getCreature(creature.mateId) : undefined
+  if (!mate || mate.isDead || mate.state !== 'breeding' || mate.mateId !== creature.id) {
+    ctx.updateCreature(creature.id, { lastStateChange: now, mateId: undefined })
+    return creature.hunger
+  }
+
+  const [babyHungerMin, babyHungerMax] = breeding.babyHunger
+  const babyHunger = babyHungerMin + rng.next() * (babyHungerMax - babyHungerMin)
+  const genome = mutate(crossover(creature.genome, mate.genome, rng), genetics, rng)
+  const baby: Creature = {
+    id: ids.next(),
+    type: creature.type,
+    genome,
+    parentIds: [creature.id, mate.id],
+    generation: Math.max(creature.generation, mate.generation) + 1,
+    birthTime: now,
+    ...expressGenome(genome, BABY_GROWTH), // Grows to full size as it matures (see life.ts)
+    position: {
+      x: creature.position.x + (rng.next() - 0.5) * 2, // Spawn near parent
+      y: 0,
+      z: creature.position.z + (rng.next() - 0.5) * 2
+    },
+    rotation: { x: 0, y: 0, z: 0 },
+    health: 100,
+    energy: 100,
+    isMoving: false,
+    isIdle: true,
+    idleAnimation: 0,
+    hunger: babyHunger,
+    state: settle(babyHunger),
+    lastStateChange: now,
+    lastBreedingTime: 0,
+    isDead: false,
+    mealsEaten: 0
+  }
+  ctx.addCreature(baby)
+  ctx.stats.births += 1
+
+  // Reset both parents
+  const hungerAfter = (hunger: number) => Math.max(0, Math.min(100, hunger + breeding.hungerChange))
+  const reset: Partial<Creature> = {
+    lastStateChange: now,
+    lastBreedingTime: now, // Set breeding cooldown
+    mateId: undefined,
+    isMoving: false,
+    targetPosition: undefined
+  }
+  ctx.updateCreature(creature.id, reset)
+  const mateHunger = hungerAfter(mate.hunger)
+  ctx.updateCreature(mate.id, { ...reset, hunger: mateHunger, state: settle(mateHunger) })
+
+  ctx.events.push({ type: 'born', time: now, creatureId: baby.id, parentIds: baby.parentIds })
+  return hungerAfter(creature.hunger)
+}
@@ -0,0 +1,42 @@
+import { Environment } from './types'
+
+// The day/night cycle and the calendar. A day is DAY_LENGTH units of game
+// time split evenly into morning, afternoon, evening and night; the sun
+// rises as morning starts and sets as night falls. Days make up seasons and
+// four seasons make a year, starting from the first day of spring.
+
+export const DAY_LENGTH = 4000
+
+export const TIMES_OF_DAY: Environment['timeOfDay'][] = ['morning', 'afternoon', 'evening', 'night']
+
+// Share of the day the sun is up: morning, afternoon and evening
+export const DAYLIGHT_SHARE = 0.75
+
+export const DAYS_PER_SEASON = 3
+
+export const SEASONS: Environment['season'][] = ['spring', 'summer', 'autumn', 'winter']
+
+export const YEAR_LENGTH = DAY_LENGTH * DAYS_PER_SEASON * SEASONS.length
+
+export interface CalendarDate {
+  year: number // From 1
+  season: Environment['season']
+  day: number // Day of the season, from 1
+}
+
+// How far through the current day, from 0 at sunrise up to 1
+export const dayFraction = (gameTime: number) => (gameTime % DAY_LENGTH) / DAY_LENGTH
+
+export const timeOfDayAt = (gameTime: number): Environment['timeOfDay'] =>
+  TIMES_OF_DAY[Math.floor(dayFraction(gameTime) * TIMES_OF_DAY.length)]
+
+export const dateAt = (gameTime: number): CalendarDate => {
+  const days = Math.floor(gameTime / DAY_LENGTH)
+  return {
+    year: Math.floor(days / (DAYS_PER_SEASON * SEASONS.length)) + 1,
+    season: SEASONS[Math.floor(days / DAYS_PER_SEASON) % SEASONS.length],
+    day: days % DAYS_PER_SEASON + 1
+  }
+}
+
+export const seasonAt = (gameTime: number) => dateAt(gameTime).season
@@ -0,0 +1,192 @@
+import { Rng, createRng } from '../utils/random'
+import { Creature, DeathCause, Environment, Food, SimulationEvent, Vector3, WorldState, WorldStats } from './types'
+import { SpatialHash, createSpatialHash } from './spatialHash'
+import { NavGrid, navGridFor } from './navigation'
+import { getSpecies, isHunter } from './species'
+import { IdCounter, createIdCounter } from './world'
+import { FlockField, createFlockField } from './flocking'
+
+// Creatures stay within -49 to 49 on X and Z (walls sit at ±50)
+export const WALL_BOUNDARY = 49
+
+// The mutable draft one tick works on, plus the helpers behaviours use to
+// read and change it. See stepWorld for the visibility rules.
+export interface TickContext {
+  now: number // Game time at the start of the tick
+  deltaTime: number
+  rng: Rng
+  ids: IdCounter // For food and babies new this tick
+  events: SimulationEvent[]
+  environment: Environment // As it was at the start of the tick
+  stats: WorldStats
+
+  creatures: Creature[]
+  food: Food[]
+  getCreature: (id: string) => Creature
+  getFood: (id: string) => Food | undefined
+  addCreature: (creature: Creature) => void
+  addFood: (food: Food) => void
+  updateCreature: (id: string, updates: Partial<Creature>) => void
+  beginTurn: (id: string) => void // Marks whose turn it is, see updateCreature
+  updateFood: (id: string, updates: Partial<Food>) => void
+  killCreature: (id: string, cause: DeathCause) => void
+
+  // Spatial hashes of living creatures and available food, plus one of just
+  // the living hunters so prey can look out for them without sifting
+  // through every creature nearby
+  creatureIndex: SpatialHash
+  hunterIndex: SpatialHash
+  foodIndex: SpatialHash
+
+  // Where each flock stood at the start of the tick (see flocking.ts)
+  flock: FlockField
+
+  // The world's obstacles, for path planning and steering
+  navigation: NavGrid
+}
+
+export const createTickContext = (world: WorldState, deltaTime: number): TickContext => {
+  // The draft: arrays copied once, records replaced by index in O(1)
+  const creatures = [...world.creatures]
+  const food = [...world.food]
+  const creatureSlot = new Map(creatures.map((c, i) => [c.id, i]))
+
+  // The creature taking its turn has its record copied at its first change
+  // and later changes written into that copy, so a turn costs one copy
+  // however many helpers update it. Records of the world passed in are never
+  // written to.
+  let turnId: string | undefined
+  let turnCopied = false
+  const foodSlot = new Map(food.map((f, i) => [f.id, i]))
+
+  // Neighbour lookups go through spatial hashes of living creatures and
+  // available food, kept in sync as things move, die, get eaten or respawn
+  const creatureIndex = createSpatialHash()
+  const hunterIndex = createSpatialHash()
+  const foodIndex = createSpatialHash()
+  const hunter = (creature: Creature) => isHunter(getSpecies(creature.type))
+  creatures.forEach(c => {
+    if (c.isDead) return
+    creatureIndex.insert(c.id, c.position.x, c.position.z)
+    if (hunter(c)) hunterIndex.insert(c.id, c.position.x, c.position.z)
+  })
+  food.forEach(f => {
+    if (f.isAvailable) foodIndex.insert(f.id, f.position.x, f.position.z)
+  })
+
+  const ctx: TickContext = {
+    now: world.gameTime,
+    deltaTime,
+    rng: createRng(world.rngState),
+    ids: createIdCounter(world.nextId),
+    events: [],
+    environment: world.environment,
+    stats: { ...world.stats, deaths: { ...world.stats.deaths } },
+    creatures,
+    food,
+    getCreature: (id) => creatures[creatureSlot.get(id)!],
+    getFood: (id) => food[foodSlot.get(id) ?? -1],
+    addCreature: (creature) => {
+      creatureSlot.set(creature.id, creatures.length)
+      creatures.push(creature)
+      creatureIndex.insert(creature.id, creature.position.x, creature.position.z)
+      if (hunter(creature)) hunterIndex.insert(creature.id, creature.position.x, creature.position.z)
+    },
+    addFood: (foodItem) => {
+      foodSlot.set(foodItem.id, food.length)
+      food.push(foodItem)
+      if (foodItem.isAvailable) foodIndex.insert(foodItem.id, foodItem.position.x, foodItem.position.z)
+    },
+    updateCreature: (id, updates) => {
+      const slot = creatureSlot.get(id)!
+      if (id === turnId && turnCopied) {
+        Object.assign(creatures[slot], updates)
+        return
+      }
+      creatures[slot] = { ...creatures[slot], ...updates }
+      if (id === turnId) turnCopied = true
+    },
+    beginTurn: (id) => {
+      turnId = id
+      turnCopied = false
+    },
+    updateFood: (id, updates) => {
+      const slot = foodSlot.get(id)!
+      food[slot] = { ...food[slot], ...updates }
+    },
+    killCreature: (id, cause) => {
+      ctx.updateCreature(id, {
+        isDead: true,
+        state: 'dead',
+        deathCause: cause,
+        deathTime: ctx.now,
+        isMoving: false,
+        targetPosition: undefined,
+        path: undefined,
+        lastStateChange: ctx.now
+      })
+      creatureIndex.remove(id)
+      hunterIndex.remove(id)
+      ctx.stats.deaths[cause] += 1
+      ctx.events.push({ type: 'died', time: ctx.now, creatureId: id, cause })
+    },
+    creatureIndex,
+    hunterIndex,
+    foodIndex,
+    flock: createFlockField(creatures),
+    navigation: navGridFor(world.obstacles)
+  }
+  return ctx
+}
+
+export const distanceSquared = (a: { position: Vector3 }, b: { position: Vector3 }) => {
+  const dx = a.position.x - b.position.x
+  const dz = a.position.z - b.position.z
+  return dx * dx + dz * dz
+}
+
+export const clampToArena = (value: number) => Math.max(-WALL_BOUNDARY, Math.min(WALL_BOUNDARY, value))
+
+// Random point up to range / 2 away on each axis, kept inside the walls
+export const randomTargetNear = (rng: Rng, position: Vector3, range: number): Vector3 => ({
+  x: clampToArena(position.x + (rng.next() - 0.5) * range),
+  y: 0.5,
+  z: clampToArena(position.z + (rng.next() - 0.5) * range)
+})
+
+export interface MoveResult {
+  position: Vector3
+  arrived: boolean // Within 0.5 units of the target; position is unchanged
+  hitWall: boolean // The step would have crossed a wall on some axis, or was blocked
+}
+
+// Take one step of length stepLength towards target. Each axis that would
+// leave the arena stays put.
+export const stepTowards = (position: Vector3, target: Vector3, stepLength: number): MoveResult => {
+  const dx = target.x - position.x
+  const dz = target.z - position.z
+  const distance = Math.sqrt(dx * dx + dz * dz)
+  if (distance < 0.5) return { position, arrived: true, hitWall: false }
+
+  const next = { ...position }
+  let hitWall = false
+  const proposedX = position.x + (dx / distance) * stepLength
+  const proposedZ = position.z + (dz / distance) * stepLength
+  if (proposedX >= -WALL_BOUNDARY && proposedX <= WALL_BOUNDARY) next.x = proposedX
+  else hitWall = true
+  if (proposedZ >= -WALL_BOUNDARY && proposedZ <= WALL_BOUNDARY) next.z = proposedZ
+  else hitWall = true
+  return { position: next, arrived: false, hitWall }
+}
+
+// Idle animation phase after a living creature's turn. Purely cosmetic; the
+// timeline predicts it with this instead of recording it every tick.
+export const advanceIdleAnimation = (creature: Creature, deltaTime: number) =>
+  (creature.idleAnimation + deltaTime * 0.1) % 1
+
+// Heading (rotation about Y) that faces along a direction on the XZ plane
+export const headingTowards = (from: Vector3, to: Vector3, fallback: number) => {
+  const dx = to.x - from.x
+  const dz = to.z - from.z
+  return dx === 0 && dz === 0 ? fallback : Math.atan2(dx, dz)
+}
@@ -0,0 +1,57 @@
+import { Creature } from './types'
+import { TickContext } from './context'
+import { getSpecies } from './species'
+
+// Energy and rest, shared by every species. Moving costs energy in
+// proportion to the distance covered and how fast it was covered, so sprints
+// and fast genotypes tire quickest. Standing still recovers it slowly and
+// resting quickly. Creatures rest when exhausted, and through their species'
+// sleeping time unless they are too hungry to.
+
+// Below this hunger creatures stay up to look for food
+const SLEEP_HUNGER = 25
+
+// Rested creatures get up outside their sleeping time once they reach this
+const WAKE_ENERGY = 60
+
+// Exhausted creatures move at this fraction of their speed
+const EXHAUSTED_SPEED_FACTOR = 0.5
+
+export const isExhausted = (creature: Creature) => creature.energy < getSpecies(creature.type).energy.exhausted
+
+// Multiplier for a creature's movement this tick
+export const energySpeedFactor = (creature: Creature) => isExhausted(creature) ? EXHAUSTED_SPEED_FACTOR : 1
+
+const isSleepTime = (creature: Creature, ctx: TickContext) =>
+  ctx.environment.timeOfDay === getSpecies(creature.type).energy.sleepsAt
+
+// Whether an awake creature with this hunger should lie down
+export const wantsRest = (creature: Creature, hunger: number, ctx: TickContext) =>
+  isExhausted(creature) || (isSleepTime(creature, ctx) && hunger >= SLEEP_HUNGER)
+
+// Whether a resting creature with this hunger should get up
+export const restOver = (creature: Creature, hunger: number, ctx: TickContext) =>
+  !isExhausted(creature) && (hunger < SLEEP_HUNGER || (!isSleepTime(creature, ctx) && creature.energy >= WAKE_ENERGY))
+
+// Charge or recover energy for what a creature did this tick, given how it
+// was at the start of its turn. Called after its behaviour, so every kind
+// of movement is paid for the same way.
+export const spendEnergy = (before: Creature, ctx: TickContext) => {
+  const after = ctx.getCreature(before.id)
+  if (after.isDead) return
+
+  const rules = getSpecies(after.type).energy
+  const dx = after.position.x - before.position.x
+  const dz = after.position.z - before.position.z
+  const distance = Math.sqrt(dx * dx + dz * dz)
+
+  let energy: number
+  if (distance > 0) {
+    const speed = distance / ctx.deltaTime * 100 // In the units of the speed gene
+    energy = after.energy - rules.moveCost * distance * speed / 100
+  } else {
+    energy = after.energy + (after.state === 'resting' ? rules.restRecovery : rules.idleRecovery) * ctx.deltaTime
+  }
+  energy = Math.max(0, Math.min(100, energy))
+  if (energy !== after.energy) ctx.updateCreature(after.id, { energy })
+}
@@ -0,0 +1,33 @@
+import { DeathCause, SimulationEvent } from './types'
+
+export const DEATH_CAUSE_LABELS: Record<DeathCause, string> = {
+  starvation: 'starvation',
+  predation: 'predation',
+  oldAge: 'old age'
+}
+
+// Human-readable log line for a simulation event
+export const describeEvent = (event: SimulationEvent): string => {
+  switch (event.type) {
+    case 'died':
+      return `Creature ${event.creatureId} died from ${DEATH_CAUSE_LABELS[event.cause]}`
+    case 'caught':
+      return `Fox ${event.creatureId} caught goose ${event.preyId}`
+    case 'injured':
+      return `Creature ${event.creatureId} was bitten by ${event.attackerId} and got away, health: ${Math.round(event.health)}`
+    case 'ate':
+      return `Goose ${event.creatureId} ate food ${event.foodId}, hunger: ${event.hunger}`
+    case 'stateChanged':
+      return `Creature ${event.creatureId} transitioned from ${event.from.toUpperCase()} to ${event.to.toUpperCase()}`
+    case 'breedingStarted':
+      return `Creatures ${event.creatureId} and ${event.partnerId} started breeding!`
+    case 'born':
+      return `Breeding complete! New baby ${event.creatureId} born to ${event.parentIds.join(' and ')}`
+    case 'foodSpawned':
+      return `New food spawned at (${event.position.x.toFixed(1)}, ${event.position.z.toFixed(1)})`
+    case 'foodRespawned':
+      return `Food ${event.foodId} has respawned`
+    case 'weatherChanged':
+      return `Weather changed from ${event.from} to ${event.to}`
+  }
+}
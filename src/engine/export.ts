@@ -0,0 +1,102 @@
+import { WorldState } from './types'
+import { MetricsHistory, MetricsSample, TRACKED_TRAITS } from './metrics'
+import { SPECIES_IDS } from './species'
+
+// Flat, analysis-friendly views of a run: one row per metrics sample and one
+// record per creature that ever lived, every row keyed by the world seed
+// (and metrics rows by gameTime). Use exportRun for JSON, or toCsv on
+// either table.
+
+export type ExportValue = string | number | boolean | null
+
+export type ExportRow = Record<string, ExportValue>
+
+export interface CreatureRecord extends ExportRow {
+  seed: number
+  id: string
+  species: string
+  generation: number
+  parentIds: string // Separated by ';', empty for founders
+  birthTime: number
+  deathTime: number | null
+  deathCause: string | null
+  alive: boolean
+  mealsEaten: number
+  vision: number
+  speed: number
+  intelligence: number
+  breedingCooldown: number
+  bodySize: number
+  lifespan: number
+}
+
+export interface RunExport {
+  seed: number
+  gameTime: number // When the export was taken
+  metricsStride: number // Samples merged into each metrics row; above 1 once a long run has been thinned
+  metrics: ExportRow[] // The whole run, oldest first
+  creatures: CreatureRecord[]
+}
+
+// One flat row per sample: population_<species>, <species>_<trait>_mean and
+// <species>_<trait>_sd columns for every species in the registry
+export const metricsRows = (samples: MetricsSample[], seed: number): ExportRow[] =>
+  samples.map(sample => {
+    const row: ExportRow = { seed, gameTime: sample.gameTime }
+    SPECIES_IDS.forEach(type => {
+      row[`population_${type}`] = sample.population[type]
+    })
+    row.births = sample.births
+    row.deaths = sample.deaths
+    row.foodAvailable = sample.foodAvailable
+    SPECIES_IDS.forEach(type => TRACKED_TRAITS.forEach(trait => {
+      row[`${type}_${trait}_mean`] = sample.traits[type][trait].mean
+      row[`${type}_${trait}_sd`] = sample.traits[type][trait].spread
+    }))
+    return row
+  })
+
+// Every creature in the world, living or dead, in the order they appeared.
+// Traits are the inherited genome.
+export const creatureRecords = (world: WorldState): CreatureRecord[] =>
+  world.creatures.map(creature => ({
+    seed: world.seed,
+    id: creature.id,
+    species: creature.type,
+    generation: creature.generation,
+    parentIds: creature.parentIds.join(';'),
+    birthTime: creature.birthTime,
+    deathTime: creature.deathTime ?? null,
+    deathCause: creature.deathCause ?? null,
+    alive: !creature.isDead,
+    mealsEaten: creature.mealsEaten,
+    vision: creature.genome.vision,
+    speed: creature.genome.speed,
+    intelligence: creature.genome.intelligence,
+    breedingCooldown: creature.genome.breedingCooldown,
+    bodySize: creature.genome.bodySize,
+    lifespan: creature.genome.lifespan
+  }))
+
+export const exportRun = (world: WorldState, history: MetricsHistory): RunExport => ({
+  seed: world.seed,
+  gameTime: world.gameTime,
+  metricsStride: history.stride,
+  metrics: metricsRows(history.samples, world.seed),
+  creatures: creatureRecords(world)
+})
+
+const csvCell = (value: ExportValue) => {
+  if (value === null) return ''
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// RFC 4180 CSV with a header row taken from the first row's keys
+export const toCsv = (rows: ExportRow[]): string => {
+  if (rows.length === 0) return ''
+  const columns = Object.keys(rows[0])
+  const lines = [columns.join(',')]
+  rows.forEach(row => lines.push(columns.map(column => csvCell(row[column] ?? null)).join(',')))
+  return lines.join('\n') + '\n'
+}
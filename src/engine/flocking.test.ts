@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { Creature, Vector3, WorldState } from './types'
+import { createWorld, spawnCreature } from './world'
+import { createTickContext } from './context'
+import { effectiveVision } from './weather'
+import { getSpecies } from './species'
+import { flockStep } from './flocking'
+
+// An empty world to put a flock in
+const emptyWorld = (): WorldState =>
+  createWorld(1, { trees: 0, flowerPatches: 0, tulipsPerPatch: 0, grass: 0, berryBushes: 0, seeds: 0 })
+
+// Six geese a few units apart either side of the cell corner at the origin,
+// some of them walking off somewhere of their own
+const flock = (): WorldState => {
+  const places = [[-1.5, -0.5], [0.4, 0.3], [1.2, -1.8], [-0.3, 2.1], [2.6, 1.1], [-2.2, 1.7]]
+  let world: WorldState = { ...emptyWorld(), creatures: [] }
+  places.forEach(() => { world = spawnCreature(world) })
+  // The second goose spawns with a mate; only the first six are kept
+  const creatures = world.creatures.slice(0, places.length).map((goose, i): Creature => ({
+    ...goose,
+    position: { x: places[i][0], y: 0, z: places[i][1] },
+    rotation: { x: 0, y: i * 1.1, z: 0 },
+    hunger: 40 + i * 5,
+    isMoving: i % 2 === 0,
+    targetPosition: i % 2 === 0 ? { x: 10, y: 0.5, z: i } : undefined
+  }))
+  return { ...world, creatures }
+}
+
+// The steering as it was worked out before cells: every flockmate in sight,
+// one at a time
+const referenceStep = (creature: Creature, target: Vector3 | undefined, world: WorldState) => {
+  const rules = getSpecies(creature.type).flocking!
+  const { position } = creature
+  const range = rules.range * (effectiveVision(creature, world.environment) / 100)
+  let count = 0
+  let separationX = 0
+  let separationZ = 0
+  let headingX = 0
+  let headingZ = 0
+  let centreX = 0
+  let centreZ = 0
+  world.creatures.forEach(other => {
+    if (other.id === creature.id) return
+    const dx = position.x - other.position.x
+    const dz = position.z - other.position.z
+    const d = Math.sqrt(dx * dx + dz * dz)
+    if (d > range) return
+    count++
+    centreX += other.position.x
+    centreZ += other.position.z
+    if (d > 0 && d < rules.spacing) {
+      separationX += dx / d * (1 - d / rules.spacing)
+      separationZ += dz / d * (1 - d / rules.spacing)
+    }
+    if (other.isMoving && other.targetPosition !== undefined && other.targetFoodId === undefined) {
+      headingX += Math.sin(other.rotation.y)
+      headingZ += Math.cos(other.rotation.y)
+    }
+  })
+
+  let dirX = 0
+  let dirZ = 0
+  if (target) {
+    const dx = target.x - position.x
+    const dz = target.z - position.z
+    const distance = Math.sqrt(dx * dx + dz * dz)
+    dirX = dx / distance
+    dirZ = dz / distance
+  }
+  const loyalty = Math.min(1, creature.hunger / 50)
+  dirX += separationX * rules.separation + headingX * rules.alignment * loyalty / count + (centreX / count - position.x) * rules.cohesion * loyalty / range
+  dirZ += separationZ * rules.separation + headingZ * rules.alignment * loyalty / count + (centreZ / count - position.z) * rules.cohesion * loyalty / range
+  const urge = Math.sqrt(dirX * dirX + dirZ * dirZ)
+  return { x: position.x + dirX / urge * 2, y: 0.5, z: position.z + dirZ / urge * 2 }
+}
+
+describe('flockStep', () => {
+  it('steers a small flock the same as looking at each flockmate in turn', () => {
+    const world = flock()
+    const ctx = createTickContext(world, 1)
+    world.creatures.forEach(goose => {
+      const target = goose.targetPosition ?? { x: -5, y: 0.5, z: 5 }
+      const step = flockStep(goose, target, ctx)
+      const expected = referenceStep(goose, target, world)
+      expect(step).toBeDefined()
+      expect(step!.x).toBeCloseTo(expected.x, 9)
+      expect(step!.z).toBeCloseTo(expected.z, 9)
+    })
+  })
+
+  it('reads the flock as it stood at the start of the tick', () => {
+    const world = flock()
+    const ctx = createTickContext(world, 1)
+    const [first, ...rest] = world.creatures
+    // A flockmate well clear of everyone's spacing walks away mid-tick
+    const mover = rest[3]
+    ctx.updateCreature(mover.id, { position: { x: 30, y: 0, z: 30 } })
+    ctx.creatureIndex.move(mover.id, 30, 30)
+
+    const target = { x: -5, y: 0.5, z: 5 }
+    const step = flockStep(first, target, ctx)
+    const expected = referenceStep(first, target, world)
+    expect(step!.x).toBeCloseTo(expected.x, 9)
+    expect(step!.z).toBeCloseTo(expected.z, 9)
+  })
+})
@@ -0,0 +1,183 @@
+import { Creature, CreatureType, Vector3 } from './types'
+import { TickContext, clampToArena } from './context'
+import { getSpecies } from './species'
+import { SPATIAL_CELL_SIZE, cellKey } from './spatialHash'
+import { effectiveVision } from './weather'
+
+// Flocking: boids-style steering for wandering creatures of species with
+// flocking rules. Each step blends where the creature itself wants to go
+// with three pulls from the flockmates it can see: away from any that are
+// too close (separation), along the way those walking somewhere are headed
+// (alignment), and towards the middle of the group (cohesion). Flocks form,
+// split and merge on their own because every creature only ever looks at
+// the neighbours in its own sight.
+//
+// Alignment and cohesion read a summary of each spatial hash cell rather
+// than every flockmate in sight, so a big flock costs the same per creature
+// as a small one. The summary is made once, at the start of each tick (see
+// createTickContext), so every creature sees the flock where it stood
+// before anyone moved that tick, whatever the order they act in. Separation
+// only looks at the few creatures within spacing, one by one, in the draft
+// like any other read.
+
+// Distance ahead of the creature of the point each flocking step aims at
+const LOOKAHEAD = 2
+
+// Pulls weaker than this (1 is a creature's own wish to go somewhere) leave
+// a creature standing where it is
+const MIN_URGE = 0.5
+
+// Below this hunger the flock's pull (but not its spacing) weakens, so a
+// starving creature leaves a flock that has eaten the area bare to search
+// on its own
+const LOYAL_HUNGER = 50
+
+// Direction a creature faces, from its heading (see headingTowards)
+const facing = (creature: Creature) => ({ x: Math.sin(creature.rotation.y), z: Math.cos(creature.rotation.y) })
+
+// Flockmates walking somewhere of their own are the ones the flock follows;
+// those only keeping up with the flock would otherwise keep it going forever
+const leading = (creature: Creature) =>
+  creature.isMoving && creature.targetPosition !== undefined && creature.targetFoodId === undefined
+
+// Totals over the members of one species in one cell: their number, the
+// sums of their positions, and the sums of the directions leaders face
+interface FlockCell {
+  count: number
+  x: number
+  z: number
+  headingX: number
+  headingZ: number
+}
+
+// The start-of-tick summary: cells by species, and each member's own share
+// of its cell so it can leave itself out
+export interface FlockField {
+  cells: Map<CreatureType, Map<number, FlockCell>>
+  members: Map<string, { cell: number; share: FlockCell }>
+}
+
+const cellOf = (value: number) => Math.floor(value / SPATIAL_CELL_SIZE)
+
+// One creature's share of its cell
+const share = (creature: Creature): FlockCell => {
+  const heading = leading(creature) ? facing(creature) : { x: 0, z: 0 }
+  return { count: 1, x: creature.position.x, z: creature.position.z, headingX: heading.x, headingZ: heading.z }
+}
+
+// Summarise the living members of every flocking species
+export const createFlockField = (creatures: Creature[]): FlockField => {
+  const field: FlockField = { cells: new Map(), members: new Map() }
+  creatures.forEach(creature => {
+    if (creature.isDead || !getSpecies(creature.type).flocking) return
+    let cells = field.cells.get(creature.type)
+    if (!cells) {
+      cells = new Map()
+      field.cells.set(creature.type, cells)
+    }
+    const key = cellKey(cellOf(creature.position.x), cellOf(creature.position.z))
+    const own = share(creature)
+    field.members.set(creature.id, { cell: key, share: own })
+    const cell = cells.get(key)
+    if (!cell) {
+      cells.set(key, { ...own })
+      return
+    }
+    cell.count += own.count
+    cell.x += own.x
+    cell.z += own.z
+    cell.headingX += own.headingX
+    cell.headingZ += own.headingZ
+  })
+  return field
+}
+
+// Distance from a point to the nearest edge of a cell along one axis, 0
+// inside it
+const gapTo = (value: number, cell: number) =>
+  Math.max(0, cell * SPATIAL_CELL_SIZE - value, value - (cell + 1) * SPATIAL_CELL_SIZE)
+
+// Point a wandering creature should step towards this tick, given where it
+// was wandering to (if anywhere), or undefined to stand still. Creatures that
+// don't flock, or see no flockmates, just carry on to their own target.
+export const flockStep = (creature: Creature, target: Vector3 | undefined, ctx: TickContext): Vector3 | undefined => {
+  const rules = getSpecies(creature.type).flocking
+  if (!rules) return target
+
+  const { position } = creature
+  const range = rules.range * (effectiveVision(creature, ctx.environment) / 100)
+  let count = 0
+  let separationX = 0
+  let separationZ = 0
+  let headingX = 0
+  let headingZ = 0
+  let centreX = 0
+  let centreZ = 0
+
+  // The flock in sight, a cell at a time, leaving the creature itself out: a
+  // cell counts if any part of it is within range
+  const cells = ctx.flock.cells.get(creature.type)
+  const own = ctx.flock.members.get(creature.id)
+  for (let cx = cellOf(position.x - range); cells && cx <= cellOf(position.x + range); cx++) {
+    const gapX = gapTo(position.x, cx)
+    for (let cz = cellOf(position.z - range); cz <= cellOf(position.z + range); cz++) {
+      const gapZ = gapTo(position.z, cz)
+      if (gapX * gapX + gapZ * gapZ > range * range) continue
+      const key = cellKey(cx, cz)
+      const cell = cells.get(key)
+      if (!cell) continue
+      const self = own !== undefined && key === own.cell ? own.share : undefined
+      const members = self ? cell.count - 1 : cell.count
+      if (members === 0) continue
+      count += members
+      centreX += self ? cell.x - self.x : cell.x
+      centreZ += self ? cell.z - self.z : cell.z
+      headingX += self ? cell.headingX - self.headingX : cell.headingX
+      headingZ += self ? cell.headingZ - self.headingZ : cell.headingZ
+    }
+  }
+
+  // Separation from each flockmate that is too close, stronger the closer
+  // they are, up to 1 when touching
+  for (const id of ctx.creatureIndex.query(position.x, position.z, rules.spacing)) {
+    if (id === creature.id) continue
+    const other = ctx.getCreature(id)
+    if (other.isDead || other.type !== creature.type) continue
+    const dx = position.x - other.position.x
+    const dz = position.z - other.position.z
+    const d = Math.sqrt(dx * dx + dz * dz)
+    if (d === 0 || d >= rules.spacing) continue
+    separationX += dx / d * (1 - d / rules.spacing)
+    separationZ += dz / d * (1 - d / rules.spacing)
+  }
+  if (count === 0) return target
+
+  // The creature's own wish, as a unit vector
+  let dirX = 0
+  let dirZ = 0
+  if (target) {
+    const dx = target.x - position.x
+    const dz = target.z - position.z
+    const distance = Math.sqrt(dx * dx + dz * dz)
+    if (distance > 0) {
+      dirX = dx / distance
+      dirZ = dz / distance
+    }
+  }
+
+  // Alignment is shared out over the whole group, so one goose wandering off
+  // doesn't drag the rest along; cohesion grows with distance from the middle
+  const loyalty = Math.min(1, creature.hunger / LOYAL_HUNGER)
+  const alignment = rules.alignment * loyalty / count
+  const cohesion = rules.cohesion * loyalty / range
+  dirX += separationX * rules.separation + headingX * alignment + (centreX / count - position.x) * cohesion
+  dirZ += separationZ * rules.separation + headingZ * alignment + (centreZ / count - position.z) * cohesion
+
+  const urge = Math.sqrt(dirX * dirX + dirZ * dirZ)
+  if (urge < MIN_URGE) return undefined
+  return {
+    x: clampToArena(position.x + dirX / urge * LOOKAHEAD),
+    y: 0.5,
+    z: clampToArena(position.z + dirZ / urge * LOOKAHEAD)
+  }
+}
@@ -0,0 +1,117 @@
+import { Rng } from '../utils/random'
+import { Environment, Food, FoodType, Vector3 } from './types'
+
+// The food registry: what each kind of food is worth, how quickly it grows
+// back and where it grows. Spawning reads it; eating and respawning use the
+// values copied onto each item. The renderer draws each type its own way
+// (see FoodInstances).
+//
+// To add a food type, add its id to FoodType and an entry to FOODS.
+
+export type FoodBiome = 'meadow' | 'woodland' | 'everywhere'
+
+export interface FoodDefinition {
+  id: FoodType
+  name: string
+  nutrition: number // Hunger restored by eating one
+  respawnTime: number // Game time before an eaten one grows back, in fair weather
+  biome: FoodBiome
+  spawnWeight: number // Relative chance of being picked when new food appears
+  color: string
+}
+
+// Biomes are rings around the centre of the arena: the open meadow in the
+// middle and the woods around it, where the trees stand
+export const BIOMES: Record<FoodBiome, { minRadius: number; maxRadius: number }> = {
+  meadow: { minRadius: 0, maxRadius: 15 },
+  woodland: { minRadius: 15, maxRadius: 45 },
+  everywhere: { minRadius: 0, maxRadius: 45 }
+}
+
+export const FOODS: Record<FoodType, FoodDefinition> = {
+  tulip: {
+    id: 'tulip',
+    name: 'Tulip',
+    nutrition: 12,
+    respawnTime: 1500,
+    biome: 'meadow',
+    spawnWeight: 1,
+    color: '#3b82f6'
+  },
+  grass: {
+    id: 'grass',
+    name: 'Grass',
+    nutrition: 5,
+    respawnTime: 800,
+    biome: 'meadow',
+    spawnWeight: 3,
+    color: '#65a30d'
+  },
+  berries: {
+    id: 'berries',
+    name: 'Berries',
+    nutrition: 25,
+    respawnTime: 5000,
+    biome: 'woodland',
+    spawnWeight: 1,
+    color: '#be123c'
+  },
+  seeds: {
+    id: 'seeds',
+    name: 'Seeds',
+    nutrition: 8,
+    respawnTime: 3000,
+    biome: 'everywhere',
+    spawnWeight: 2,
+    color: '#a16207'
+  }
+}
+
+export const FOOD_TYPES = Object.keys(FOODS) as FoodType[]
+
+// How fast plants grow in each season, for both eaten food growing back and
+// new food appearing: lush in summer, scarce in winter
+export const SEASON_GROWTH: Record<Environment['season'], number> = {
+  spring: 1,
+  summer: 1.5,
+  autumn: 0.7,
+  winter: 0.25
+}
+
+// The most any one food item is worth, for weighing nutrition against distance
+export const MAX_NUTRITION = Math.max(...FOOD_TYPES.map(type => FOODS[type].nutrition))
+
+// A fresh, uneaten food item of this type
+export const createFood = (type: FoodType, position: Vector3): Omit<Food, 'id'> => ({
+  position,
+  type,
+  isAvailable: true,
+  nutritionValue: FOODS[type].nutrition,
+  respawnTime: FOODS[type].respawnTime,
+  lastEaten: 0,
+  growth: 0
+})
+
+// A food type picked at random by spawn weight
+export const randomFoodType = (rng: Rng): FoodType => {
+  const total = FOOD_TYPES.reduce((sum, type) => sum + FOODS[type].spawnWeight, 0)
+  let pick = rng.next() * total
+  for (const type of FOOD_TYPES) {
+    pick -= FOODS[type].spawnWeight
+    if (pick < 0) return type
+  }
+  return FOOD_TYPES[FOOD_TYPES.length - 1]
+}
+
+// A random point in a biome, uniform over its area
+export const randomPositionIn = (biome: FoodBiome, rng: Rng, y = 0): Vector3 => {
+  const { minRadius, maxRadius } = BIOMES[biome]
+  const angle = rng.next() * Math.PI * 2
+  const radius = Math.sqrt(minRadius * minRadius + rng.next() * (maxRadius * maxRadius - minRadius * minRadius))
+  return { x: Math.cos(angle) * radius, y, z: Math.sin(angle) * radius }
+}
+
+// How far an eaten food item has grown back, from 0 just eaten to 1 ready
+// to eat again
+export const regrowth = (food: Food) =>
+  food.isAvailable ? 1 : Math.min(1, food.growth / food.respawnTime)
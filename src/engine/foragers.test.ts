@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { Creature, Food, Obstacle, WorldState } from './types'
+import { createWorld, spawnCreature } from './world'
+import { createFood } from './foods'
+import { stepWorld } from './simulate'
+
+// An empty world: no trees and no food but what a test adds
+const emptyWorld = (): WorldState =>
+  createWorld(1, { trees: 0, flowerPatches: 0, tulipsPerPatch: 0, grass: 0, berryBushes: 0, seeds: 0 })
+
+const tree = (id: string, x: number, z: number, radius: number): Obstacle => ({
+  id,
+  kind: 'tree',
+  position: { x, y: 0, z },
+  radius,
+  rotationY: 0,
+  scale: 1,
+  variant: 0
+})
+
+const hungryGoose = (world: WorldState, x: number, z: number): WorldState => {
+  const spawned = spawnCreature(world)
+  const goose: Creature = { ...spawned.creatures[0], position: { x, y: 0, z }, hunger: 30, state: 'hungry' }
+  return { ...spawned, creatures: [goose] }
+}
+
+describe('simulateForager', () => {
+  it('gives up on food it is blocked from reaching instead of standing still', () => {
+    // Grass in a hollow closed in by a ring of trees, in sight of the goose
+    const ring = Array.from({ length: 8 }, (_, i) => {
+      const angle = i / 8 * Math.PI * 2
+      return tree(`tree-${i}`, 5 + Math.cos(angle) * 1.2, Math.sin(angle) * 1.2, 0.8)
+    })
+    const grass: Food = { id: 'grass', ...createFood('grass', { x: 5, y: 0, z: 0 }) }
+    let world: WorldState = { ...hungryGoose(emptyWorld(), 0, 0), obstacles: ring, food: [grass] }
+
+    let aimed = 0
+    for (let tick = 0; tick < 100; tick++) {
+      world = stepWorld(world, 1).world
+      const goose = world.creatures[0]
+      if (!goose.targetFoodId) continue
+      // A food target always comes with somewhere to walk to
+      aimed++
+      expect(goose.targetPosition).toBeDefined()
+    }
+    expect(aimed).toBeGreaterThan(0)
+    expect(world.food[0].isAvailable).toBe(true) // Out of reach, so never eaten
+  })
+})
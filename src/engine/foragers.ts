@@ -0,0 +1,315 @@
+import { Creature, Food } from './types'
+import { TickContext, advanceIdleAnimation, clampToArena, distanceSquared, headingTowards, randomTargetNear } from './context'
+import { eats, getSpecies, hunts } from './species'
+import { breedingFinished, canBreed, findMate, finishBreeding, startBreeding } from './breeding'
+import { live } from './life'
+import { energySpeedFactor, restOver, wantsRest } from './energy'
+import { MAX_NUTRITION } from './foods'
+import { followPath, steer } from './navigation'
+import { flockStep } from './flocking'
+import { coldHungerFactor, effectiveVision } from './weather'
+
+// Foragers (geese) wander with their flock, walk to food their diet allows
+// and eat it, breed when full, rest when tired or at their sleeping time, and
+// run from anything that hunts them.
+
+// Predators are seen this far away at 100 vision
+const FLEE_VISION_RANGE = 12
+
+// How far ahead a fleeing forager aims, and how much faster than usual it runs
+const FLEE_DISTANCE = 8
+const FLEE_SPEED_BOOST = 1.5
+
+// Food is seen this far away at 100 vision
+const FOOD_VISION_RANGE = 10
+
+// Game time spent eating one food item
+const EATING_DURATION = 120
+
+// Hunger-driven state outside of eating, breeding and fleeing
+const settle = (hunger: number): Creature['state'] => hunger > 50 ? 'full' : 'hungry'
+
+// How much a forager wants a food item within range: clever foragers go for
+// the most nutritious food in sight, simple ones for the closest. Both terms
+// run from 0 to 1.
+const foodScore = (creature: Creature, food: Food, range: number) => {
+  const weight = creature.intelligence / 100
+  const value = Math.min(1, food.nutritionValue / MAX_NUTRITION)
+  const nearness = 1 - Math.min(1, Math.sqrt(distanceSquared(food, creature)) / range)
+  return weight * value + (1 - weight) * nearness
+}
+
+// Nearest living predator within sight, if any
+const nearestPredator = (creature: Creature, ctx: TickContext): Creature | undefined => {
+  const range = FLEE_VISION_RANGE * (effectiveVision(creature, ctx.environment) / 100)
+  let nearest: Creature | undefined
+  for (const id of ctx.hunterIndex.query(creature.position.x, creature.position.z, range)) {
+    const other = ctx.getCreature(id)
+    if (!hunts(other.type, creature.type)) continue
+    if (distanceSquared(other, creature) > range * range) continue
+    if (!nearest || distanceSquared(other, creature) < distanceSquared(nearest, creature)) nearest = other
+  }
+  return nearest
+}
+
+// Run directly away from the predator. Eating and breeding are abandoned; the
+// target food stays where it is for someone else.
+const flee = (creature: Creature, predator: Creature, hunger: number, idleAnimation: number, ctx: TickContext) => {
+  // Food claimed by starting to eat it is left uneaten
+  const food = creature.state === 'eating' && creature.targetFoodId ? ctx.getFood(creature.targetFoodId) : undefined
+  if (food && !food.isAvailable) {
+    ctx.updateFood(food.id, { isAvailable: true })
+    ctx.foodIndex.insert(food.id, food.position.x, food.position.z)
+  }
+
+  const dx = creature.position.x - predator.position.x
+  const dz = creature.position.z - predator.position.z
+  const distance = Math.sqrt(dx * dx + dz * dz) || 1
+  const target = {
+    x: clampToArena(creature.position.x + (dx / distance) * FLEE_DISTANCE),
+    y: 0.5,
+    z: clampToArena(creature.position.z + (dz / distance) * FLEE_DISTANCE)
+  }
+  const move = steer(creature, target, creature.speed / 100 * FLEE_SPEED_BOOST * energySpeedFactor(creature) * ctx.deltaTime, ctx)
+
+  if (creature.state !== 'fleeing') {
+    ctx.events.push({ type: 'stateChanged', time: ctx.now, creatureId: creature.id, from: creature.state, to: 'fleeing' })
+  }
+  ctx.creatureIndex.move(creature.id, move.position.x, move.position.z)
+  ctx.updateCreature(creature.id, {
+    state: 'fleeing',
+    lastStateChange: creature.state === 'fleeing' ? creature.lastStateChange : ctx.now,
+    targetFoodId: undefined,
+    targetPosition: target,
+    path: undefined,
+    isMoving: true,
+    hunger,
+    idleAnimation,
+    position: move.position,
+    rotation: { ...creature.rotation, y: headingTowards(creature.position, move.position, creature.rotation.y) }
+  })
+}
+
+// One forager's turn within a tick. Reads and writes go through the tick
+// context so later creatures see the result straight away.
+export const simulateForager = (creature: Creature, ctx: TickContext) => {
+  const { now, deltaTime, rng, events, getFood, updateCreature, updateFood, creatureIndex, foodIndex } = ctx
+
+  // Skip dead creatures
+  if (creature.isDead) return
+
+  // Update idle animation
+  const newIdleAnimation = advanceIdleAnimation(creature, deltaTime)
+
+  // State machine logic
+  let newState = creature.state
+  let newHunger = creature.hunger
+  let newTargetPosition = creature.targetPosition
+  let newTargetFoodId = creature.targetFoodId
+  let isMoving = creature.isMoving
+  let lastStateChange = creature.lastStateChange
+  let mealsEaten = creature.mealsEaten
+  const newPosition = { ...creature.position }
+
+  // Decrease hunger over time only when not eating or breeding
+  if (creature.state !== 'eating' && creature.state !== 'breeding') {
+    const hungerDecrease = deltaTime * getSpecies(creature.type).hungerDecay * coldHungerFactor(ctx.environment)
+    newHunger = Math.max(0, creature.hunger - hungerDecrease)
+  }
+
+  // Grow, heal or take damage; starvation and old age can kill
+  if (!live(creature, newHunger, ctx)) return
+
+  // A predator in sight overrides everything else: drop what we're doing and run
+  const threat = nearestPredator(creature, ctx)
+  if (threat) {
+    flee(creature, threat, newHunger, newIdleAnimation, ctx)
+    return
+  }
+  if (creature.state === 'fleeing') {
+    // Safe again, carry on according to hunger
+    newState = settle(newHunger)
+    lastStateChange = now
+    events.push({ type: 'stateChanged', time: now, creatureId: creature.id, from: 'fleeing', to: newState })
+  }
+
+  // Rest in place until rested, or until too hungry to stay down
+  if (newState === 'resting') {
+    if (!restOver(creature, newHunger, ctx)) {
+      updateCreature(creature.id, { idleAnimation: newIdleAnimation, hunger: newHunger, isMoving: false })
+      return
+    }
+    newState = settle(newHunger)
+    lastStateChange = now
+    events.push({ type: 'stateChanged', time: now, creatureId: creature.id, from: 'resting', to: newState })
+  } else if ((newState === 'hungry' || newState === 'full') && wantsRest(creature, newHunger, ctx)) {
+    updateCreature(creature.id, {
+      state: 'resting',
+      lastStateChange: now,
+      targetPosition: undefined,
+      targetFoodId: undefined,
+      path: undefined,
+      isMoving: false,
+      idleAnimation: newIdleAnimation,
+      hunger: newHunger
+    })
+    events.push({ type: 'stateChanged', time: now, creatureId: creature.id, from: newState, to: 'resting' })
+    return
+  }
+
+  // State transitions based on hunger - make them completely dependent
+  if (newHunger > 50 && creature.state === 'hungry') {
+    newState = 'full'
+    lastStateChange = now
+    events.push({ type: 'stateChanged', time: now, creatureId: creature.id, from: 'hungry', to: 'full' })
+  } else if (newHunger <= 50 && creature.state === 'full') {
+    newState = 'hungry'
+    lastStateChange = now
+    events.push({ type: 'stateChanged', time: now, creatureId: creature.id, from: 'full', to: 'hungry' })
+  }
+
+  // Behavior based on state
+  if (newState === 'hungry') {
+    // Food being walked to that someone else got to first is given up on
+    let targetFood = newTargetFoodId ? getFood(newTargetFoodId) : undefined
+    if (newTargetFoodId && !targetFood?.isAvailable) {
+      newTargetFoodId = undefined
+      newTargetPosition = undefined
+      isMoving = false
+      targetFood = undefined
+    }
+
+    if (!targetFood) {
+      // Pick the food it likes best among what it can see, and head for it
+      const visionRange = FOOD_VISION_RANGE * (effectiveVision(creature, ctx.environment) / 100)
+      const nearbyFood = foodIndex.query(creature.position.x, creature.position.z, visionRange)
+        .map(id => getFood(id)!)
+        .filter(food => eats(creature, food))
+
+      if (nearbyFood.length > 0) {
+        const chosenFood = nearbyFood.reduce((best, candidate) =>
+          foodScore(creature, candidate, visionRange) > foodScore(creature, best, visionRange) ? candidate : best
+        )
+        newTargetFoodId = chosenFood.id
+        newTargetPosition = { x: chosenFood.position.x, y: 0.5, z: chosenFood.position.z }
+        isMoving = true
+      } else if (rng.next() < 0.08) { // 8% chance to change direction (4x more frequent)
+        // No food in sight, wander
+        newTargetPosition = randomTargetNear(rng, creature.position, 15)
+        isMoving = true
+      }
+    }
+  } else if (newState === 'eating') {
+    // Eat for a while, then take the food's nutrition
+    if (now - creature.lastStateChange >= EATING_DURATION) {
+      const food = newTargetFoodId ? getFood(newTargetFoodId) : undefined
+      newHunger = Math.min(100, newHunger + (food?.nutritionValue ?? 0))
+      newState = settle(newHunger)
+      newTargetFoodId = undefined
+      lastStateChange = now
+      mealsEaten += 1
+      if (food) events.push({ type: 'ate', time: now, creatureId: creature.id, foodId: food.id, hunger: newHunger })
+      events.push({ type: 'stateChanged', time: now, creatureId: creature.id, from: 'eating', to: newState })
+    }
+  } else if (newState === 'full') {
+    // Look for a partner nearby within vision, if ready to breed
+    const partner = canBreed(creature, now) ? findMate(creature, ctx) : undefined
+
+    if (partner) {
+      // Start breeding
+      newState = 'breeding'
+      isMoving = false
+      newTargetPosition = undefined
+      lastStateChange = now
+      startBreeding(creature, partner, ctx)
+    } else if (rng.next() < 0.04) { // 4% chance to move (4x more frequent)
+      // No partner or on cooldown: potter about nearby
+      newTargetPosition = randomTargetNear(rng, creature.position, 8)
+      isMoving = true
+    }
+  } else if (newState === 'breeding') {
+    // Breeding complete: the baby joins the draft and both parents reset
+    if (breedingFinished(creature, now)) {
+      newHunger = finishBreeding(creature, ctx, settle)
+      newState = settle(newHunger)
+      lastStateChange = now
+    }
+  }
+
+  // Wandering foragers keep with their flock: steps towards their own target
+  // bend towards it, and it can set them off when they have nowhere to go
+  const wandering = (newState === 'hungry' || newState === 'full') && !newTargetFoodId
+  const stepTarget = wandering ? flockStep(creature, newTargetPosition, ctx) : newTargetPosition
+
+  // Walk towards the target, around obstacles and other creatures
+  let newPath: Creature['path']
+  if (stepTarget) {
+    const move = followPath(creature, stepTarget, creature.speed / 100 * energySpeedFactor(creature) * deltaTime, ctx)
+
+    if (move.arrived) {
+      // Reached target
+      if (newTargetFoodId) {
+        // Reached food: claim it so nobody else eats it, and start eating.
+        // Anyone else on their way to it gives up.
+        newTargetPosition = undefined
+        isMoving = false
+        const food = getFood(newTargetFoodId)
+        if (food?.isAvailable) {
+          updateFood(food.id, { isAvailable: false, lastEaten: now, growth: 0 })
+          foodIndex.remove(food.id)
+          events.push({ type: 'stateChanged', time: now, creatureId: creature.id, from: newState, to: 'eating' })
+          newState = 'eating'
+          lastStateChange = now
+        } else {
+          newTargetFoodId = undefined
+        }
+      } else {
+        // Reached random target
+        newTargetPosition = undefined
+        isMoving = false
+      }
+    } else {
+      newPosition.x = move.position.x
+      newPosition.z = move.position.z
+      newPath = move.path
+      isMoving = true
+      if (move.hitWall) {
+        // Hit a wall or got wedged: stop there and give up on the target,
+        // food included, so a new one is picked next tick
+        newTargetPosition = undefined
+        newTargetFoodId = undefined
+        newPath = undefined
+        isMoving = false
+      } else if (newTargetPosition && stepTarget !== newTargetPosition && distanceSquared({ position: newPosition }, { position: newTargetPosition }) < 0.25) {
+        // Came within reach of its own target on the way with the flock
+        newTargetPosition = undefined
+        newPath = undefined
+      }
+    }
+  } else if (wandering) {
+    // Nowhere to go, or the flock holds it where it is
+    isMoving = false
+  }
+
+  // Update creature, facing the way it walked: everything the turn changed
+  // is written at once
+  creatureIndex.move(creature.id, newPosition.x, newPosition.z)
+  updateCreature(creature.id, {
+    idleAnimation: newIdleAnimation,
+    hunger: newHunger,
+    state: newState,
+    lastStateChange,
+    mealsEaten,
+    targetPosition: newTargetPosition,
+    targetFoodId: newTargetFoodId,
+    path: newPath,
+    isMoving,
+    position: newPosition,
+    rotation: {
+      x: creature.rotation.x,
+      y: headingTowards(creature.position, newPosition, creature.rotation.y),
+      z: creature.rotation.z
+    }
+  })
+}
+
@@ -0,0 +1,57 @@
+import { Rng } from '../utils/random'
+import { Creature, Genome } from './types'
+import { GeneticsRules, StatRange } from './species'
+
+// Heritable traits. A creature's genome is fixed at birth; the matching
+// Creature fields (vision, speed, ...) are its expressed traits, read by the
+// simulation every tick.
+
+export const GENES: (keyof Genome)[] = ['vision', 'speed', 'intelligence', 'breedingCooldown', 'bodySize', 'lifespan']
+
+const randomIn = (rng: Rng, [min, max]: StatRange) => min + rng.next() * (max - min)
+
+const clamp = (value: number, [min, max]: StatRange) => Math.max(min, Math.min(max, value))
+
+// A genome for a creature with no parents
+export const randomGenome = (rules: GeneticsRules, rng: Rng): Genome => ({
+  vision: randomIn(rng, rules.initial.vision),
+  speed: randomIn(rng, rules.initial.speed),
+  intelligence: randomIn(rng, rules.initial.intelligence),
+  breedingCooldown: randomIn(rng, rules.initial.breedingCooldown),
+  bodySize: randomIn(rng, rules.initial.bodySize),
+  lifespan: randomIn(rng, rules.initial.lifespan)
+})
+
+// Uniform crossover: each gene comes from either parent with equal chance
+export const crossover = (a: Genome, b: Genome, rng: Rng): Genome => {
+  const child = { ...a }
+  GENES.forEach(gene => {
+    if (rng.chance(0.5)) child[gene] = b[gene]
+  })
+  return child
+}
+
+// Each gene mutates with chance mutationRate, by up to mutationSize of its
+// allowed range either way, and is kept within the species' limits
+export const mutate = (genome: Genome, rules: GeneticsRules, rng: Rng): Genome => {
+  const mutated = { ...genome }
+  GENES.forEach(gene => {
+    if (!rng.chance(rules.mutationRate)) return
+    const [min, max] = rules.limits[gene]
+    mutated[gene] = clamp(genome[gene] + (rng.next() - 0.5) * 2 * rules.mutationSize * (max - min), rules.limits[gene])
+  })
+  return mutated
+}
+
+// The creature fields a genome determines. growth is the fraction of adult
+// body size reached so far.
+export const expressGenome = (genome: Genome, growth = 1): Pick<Creature, 'vision' | 'speed' | 'intelligence' | 'breedingCooldown' | 'scale'> => {
+  const size = genome.bodySize * growth
+  return {
+    vision: genome.vision,
+    speed: genome.speed,
+    intelligence: genome.intelligence,
+    breedingCooldown: genome.breedingCooldown,
+    scale: { x: size, y: size, z: size }
+  }
+}
@@ -0,0 +1,205 @@
+import { Creature, Vector3 } from './types'
+import { TickContext, advanceIdleAnimation, distanceSquared, headingTowards, randomTargetNear } from './context'
+import { getSpecies, hunts } from './species'
+import { breedingFinished, canBreed, findMate, finishBreeding, startBreeding } from './breeding'
+import { injure, live } from './life'
+import { energySpeedFactor, restOver, wantsRest } from './energy'
+import { followPath } from './navigation'
+import { coldHungerFactor, effectiveVision } from './weather'
+
+// Hunters (foxes) hunt the species in their diet: prowl until prey is in
+// sight, stalk it slowly, chase it once close and bite it. Prey that survives
+// the bite gets away injured; otherwise the hunter eats it and lazes about
+// until hungry again. Full hunters breed, and tired ones rest.
+//
+//   prowling -> stalking -> chasing -> eating -> full -> prowling
+//                  \___________\______ lost prey, gave up or prey got away -> prowling
+//                                           full -> breeding -> full/prowling
+//                               prowling/full -> resting -> full/prowling
+
+// Hunters spot prey this far away at 100 vision
+const HUNT_VISION_RANGE = 20
+
+// Stalking creeps up slowly; the chase starts within CHASE_DISTANCE
+const CHASE_DISTANCE = 5
+const CATCH_DISTANCE = 0.8
+const STALK_SPEED_FACTOR = 0.4
+const CHASE_SPEED_FACTOR = 1.3
+
+// A chase lasting longer than this is abandoned
+const MAX_CHASE_TIME = 600
+
+// Health a bite takes from prey of the same body size. Bigger hunters and
+// smaller prey make it worse.
+const BITE_DAMAGE = 60
+
+// Prowling hunters wait this long before picking new prey, which gives
+// anything that just got away a head start
+const PROWL_REST_TIME = 300
+
+const EATING_DURATION = 600
+const MEAL_HUNGER = 50 // Hunger restored by one catch
+const HUNT_BELOW_HUNGER = 60 // Full hunters start prowling again below this
+
+const settle = (hunger: number): Creature['state'] => hunger >= HUNT_BELOW_HUNGER ? 'full' : 'prowling'
+
+// Nearest living prey within sight, if any
+const nearestPrey = (hunter: Creature, ctx: TickContext): Creature | undefined => {
+  const range = HUNT_VISION_RANGE * (effectiveVision(hunter, ctx.environment) / 100)
+  let nearest: Creature | undefined
+  for (const id of ctx.creatureIndex.query(hunter.position.x, hunter.position.z, range)) {
+    const other = ctx.getCreature(id)
+    if (other.isDead || !hunts(hunter.type, other.type)) continue
+    if (distanceSquared(other, hunter) > range * range) continue
+    if (!nearest || distanceSquared(other, hunter) < distanceSquared(nearest, hunter)) nearest = other
+  }
+  return nearest
+}
+
+// One hunter's turn within a tick
+export const simulateHunter = (hunter: Creature, ctx: TickContext) => {
+  const { now, deltaTime, rng, events, getCreature, updateCreature, creatureIndex } = ctx
+  if (hunter.isDead) return
+
+  const idleAnimation = advanceIdleAnimation(hunter, deltaTime)
+  let state = hunter.state
+  let hunger = hunter.hunger
+  let lastStateChange = hunter.lastStateChange
+  let targetPreyId = hunter.targetPreyId
+  let targetPosition: Vector3 | undefined = hunter.targetPosition
+  let path: Vector3[] | undefined
+  let moveSpeed = hunter.speed / 100 * energySpeedFactor(hunter) * deltaTime
+  let mealsEaten = hunter.mealsEaten
+
+  const changeState = (to: Creature['state']) => {
+    if (to === state) return
+    events.push({ type: 'stateChanged', time: now, creatureId: hunter.id, from: state, to })
+    state = to
+    lastStateChange = now
+  }
+
+  // Hunger drains except while eating or breeding
+  if (state !== 'eating' && state !== 'breeding') {
+    hunger = Math.max(0, hunter.hunger - deltaTime * getSpecies(hunter.type).hungerDecay * coldHungerFactor(ctx.environment))
+  }
+  if (!live(hunter, hunger, ctx)) return
+
+  if (state === 'eating') {
+    targetPosition = undefined
+    if (now - lastStateChange >= EATING_DURATION) {
+      hunger = Math.min(100, hunger + MEAL_HUNGER)
+      changeState(settle(hunger))
+    }
+  } else if (state === 'breeding') {
+    targetPosition = undefined
+    if (breedingFinished(hunter, now)) {
+      hunger = finishBreeding(hunter, ctx, settle)
+      lastStateChange = now
+      state = settle(hunger)
+    }
+  } else if (state === 'full') {
+    const mate = canBreed(hunter, now) ? findMate(hunter, ctx) : undefined
+    if (hunger < HUNT_BELOW_HUNGER) {
+      changeState('prowling')
+    } else if (mate) {
+      startBreeding(hunter, mate, ctx)
+      state = 'breeding'
+      lastStateChange = now
+      targetPosition = undefined
+    } else if (rng.next() < 0.03) {
+      targetPosition = randomTargetNear(rng, hunter.position, 10)
+    }
+  }
+
+  // Rest when tired or at sleeping time, but never in the middle of a hunt
+  if (state === 'resting') {
+    targetPosition = undefined
+    if (restOver(hunter, hunger, ctx)) changeState(settle(hunger))
+  } else if ((state === 'prowling' || state === 'full') && wantsRest(hunter, hunger, ctx)) {
+    targetPosition = undefined
+    changeState('resting')
+  }
+
+  // Look for prey whenever hungry and not already after one
+  if (state === 'prowling') {
+    const prey = now - lastStateChange >= PROWL_REST_TIME ? nearestPrey(hunter, ctx) : undefined
+    if (prey) {
+      targetPreyId = prey.id
+      changeState('stalking')
+    } else if (rng.next() < 0.05) {
+      targetPosition = randomTargetNear(rng, hunter.position, 20)
+    }
+  }
+
+  if (state === 'stalking' || state === 'chasing') {
+    const prey = targetPreyId ? getCreature(targetPreyId) : undefined
+    const giveUpRange = HUNT_VISION_RANGE * (effectiveVision(hunter, ctx.environment) / 100) * 1.2
+    const lost = !prey || prey.isDead || distanceSquared(prey, hunter) > giveUpRange * giveUpRange
+    const tooLong = state === 'chasing' && now - lastStateChange > MAX_CHASE_TIME
+
+    if (lost || tooLong) {
+      targetPreyId = undefined
+      targetPosition = undefined
+      changeState('prowling')
+    } else {
+      if (state === 'stalking' && distanceSquared(prey, hunter) <= CHASE_DISTANCE * CHASE_DISTANCE) {
+        changeState('chasing')
+      }
+      targetPosition = { ...prey.position }
+      moveSpeed *= state === 'chasing' ? CHASE_SPEED_FACTOR : STALK_SPEED_FACTOR
+    }
+  }
+
+  // Move towards the target, if any, around obstacles and anything but the prey
+  let position = hunter.position
+  let rotationY = hunter.rotation.y
+  let isMoving = false
+  if (targetPosition) {
+    const move = followPath(hunter, targetPosition, moveSpeed, ctx, targetPreyId)
+    rotationY = headingTowards(hunter.position, move.position, rotationY)
+    position = move.position
+    isMoving = !move.arrived
+    path = move.path
+    // Wander targets are dropped on arrival or at a wall; prey is re-aimed each tick
+    if ((move.arrived || move.hitWall) && !targetPreyId) targetPosition = undefined
+  }
+  if (!targetPosition) path = undefined
+
+  // Bite once close enough. A fatal bite is a meal; otherwise the prey
+  // escapes wounded and the hunter has to start over.
+  if (state === 'chasing' && targetPreyId) {
+    const prey = getCreature(targetPreyId)
+    const dx = prey.position.x - position.x
+    const dz = prey.position.z - position.z
+    if (dx * dx + dz * dz < CATCH_DISTANCE * CATCH_DISTANCE) {
+      const health = injure(prey, BITE_DAMAGE * hunter.genome.bodySize / prey.genome.bodySize, 'predation', ctx)
+      targetPreyId = undefined
+      targetPosition = undefined
+      isMoving = false
+      if (health === 0) {
+        events.push({ type: 'caught', time: now, creatureId: hunter.id, preyId: prey.id })
+        mealsEaten += 1
+        changeState('eating')
+      } else {
+        events.push({ type: 'injured', time: now, creatureId: prey.id, attackerId: hunter.id, health })
+        changeState('prowling')
+      }
+    }
+  }
+
+  creatureIndex.move(hunter.id, position.x, position.z)
+  ctx.hunterIndex.move(hunter.id, position.x, position.z)
+  updateCreature(hunter.id, {
+    state,
+    hunger,
+    lastStateChange,
+    mealsEaten,
+    targetPreyId,
+    targetPosition,
+    path,
+    position,
+    isMoving,
+    idleAnimation,
+    rotation: { ...hunter.rotation, y: rotationY }
+  })
+}
@@ -0,0 +1,27 @@
+// Framework-free simulation engine. Import from here in scripts and tests;
+// the Zustand store is just a thin wrapper around these functions.
+export * from './types'
+export * from './world'
+export * from './simulate'
+export * from './context'
+export * from './species'
+export * from './foods'
+export * from './obstacles'
+export * from './worldgen'
+export * from './navigation'
+export * from './flocking'
+export * from './breeding'
+export * from './genetics'
+export * from './life'
+export * from './energy'
+export * from './weather'
+export * from './clock'
+export * from './foragers'
+export * from './hunters'
+export * from './events'
+export * from './snapshot'
+export * from './timeline'
+export * from './spatialHash'
+export * from './lineage'
+export * from './metrics'
+export * from './export'
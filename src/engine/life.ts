@@ -0,0 +1,64 @@
+import { Creature, DeathCause } from './types'
+import { TickContext } from './context'
+import { getSpecies } from './species'
+import { expressGenome } from './genetics'
+
+// Ageing and health, shared by every species. Babies are born at
+// BABY_GROWTH of their adult size and grow until the species' maturity age.
+// Health falls while starving, past the creature's lifespan (a gene) and
+// from bites, and recovers while well fed. A creature dies when its health
+// reaches zero, from whatever took the last of it.
+
+export const BABY_GROWTH = 0.7
+
+export type LifeStage = 'juvenile' | 'adult' | 'elderly'
+
+export const ageOf = (creature: Creature, now: number) => now - creature.birthTime
+
+export const isAdult = (creature: Creature, now: number) =>
+  ageOf(creature, now) >= getSpecies(creature.type).life.maturityAge
+
+export const lifeStage = (creature: Creature, now: number): LifeStage => {
+  const age = ageOf(creature, now)
+  if (age < getSpecies(creature.type).life.maturityAge) return 'juvenile'
+  return age > creature.genome.lifespan ? 'elderly' : 'adult'
+}
+
+// Fraction of adult body size for a creature of this age
+const growthAt = (creature: Creature, age: number) => {
+  const { maturityAge } = getSpecies(creature.type).life
+  if (age >= maturityAge) return 1
+  return BABY_GROWTH + (1 - BABY_GROWTH) * Math.max(0, age / maturityAge)
+}
+
+// Grow, take damage and heal for one tick, given the hunger the creature has
+// after this tick's decay. Returns false if the creature died.
+export const live = (creature: Creature, hunger: number, ctx: TickContext): boolean => {
+  const { life } = getSpecies(creature.type)
+  const age = ageOf(creature, ctx.now)
+
+  const starvation = hunger === 0 ? life.starvationDamage * ctx.deltaTime : 0
+  const oldAge = age > creature.genome.lifespan ? life.oldAgeDamage * ctx.deltaTime : 0
+  const recovery = hunger > life.wellFedHunger && !oldAge ? life.recovery * ctx.deltaTime : 0
+  const health = Math.max(0, Math.min(100, creature.health - starvation - oldAge + recovery))
+
+  if (health === 0) {
+    ctx.killCreature(creature.id, oldAge > starvation ? 'oldAge' : 'starvation')
+    return false
+  }
+
+  const updates: Partial<Creature> = {}
+  if (health !== creature.health) updates.health = health
+  // Juveniles grow a little every tick; adults keep their size
+  if (creature.scale.x !== creature.genome.bodySize) updates.scale = expressGenome(creature.genome, growthAt(creature, age)).scale
+  if (updates.health !== undefined || updates.scale) ctx.updateCreature(creature.id, updates)
+  return true
+}
+
+// Deal damage from an attack. Returns the health left; 0 means it was fatal.
+export const injure = (creature: Creature, damage: number, cause: DeathCause, ctx: TickContext): number => {
+  const health = Math.max(0, creature.health - damage)
+  if (health === 0) ctx.killCreature(creature.id, cause)
+  else ctx.updateCreature(creature.id, { health })
+  return health
+}
@@ -0,0 +1,67 @@
+import { Creature } from './types'
+
+// Family relationships, worked out from parentIds. Dead creatures stay in
+// the world, so whole lines can be traced back to their founders.
+
+export interface LineageIndex {
+  byId: Map<string, Creature>
+  children: Map<string, Creature[]> // In birth order
+}
+
+export interface FamilyTreeNode {
+  id: string
+  creature?: Creature // Missing if the relative was removed from the world
+  relatives: FamilyTreeNode[] // Parents in an ancestor tree, children in a descendant tree
+}
+
+export const indexLineage = (creatures: Creature[]): LineageIndex => {
+  const byId = new Map<string, Creature>()
+  const children = new Map<string, Creature[]>()
+  creatures.forEach(creature => {
+    byId.set(creature.id, creature)
+    creature.parentIds.forEach(parentId => {
+      const siblings = children.get(parentId)
+      if (siblings) siblings.push(creature)
+      else children.set(parentId, [creature])
+    })
+  })
+  return { byId, children }
+}
+
+// Parents, grandparents, ... up to depth generations back
+export const ancestorTree = (index: LineageIndex, id: string, depth: number): FamilyTreeNode => {
+  const creature = index.byId.get(id)
+  return {
+    id,
+    creature,
+    relatives: depth > 0 && creature
+      ? creature.parentIds.map(parentId => ancestorTree(index, parentId, depth - 1))
+      : []
+  }
+}
+
+// Children, grandchildren, ... up to depth generations forward
+export const descendantTree = (index: LineageIndex, id: string, depth: number): FamilyTreeNode => ({
+  id,
+  creature: index.byId.get(id),
+  relatives: depth > 0
+    ? (index.children.get(id) ?? []).map(child => descendantTree(index, child.id, depth - 1))
+    : []
+})
+
+// Every descendant however far down, counted once each
+export const countDescendants = (index: LineageIndex, id: string): { total: number; alive: number } => {
+  const seen = new Set<string>()
+  const pending = [id]
+  let alive = 0
+  while (pending.length > 0) {
+    const next = pending.pop()!
+    for (const child of index.children.get(next) ?? []) {
+      if (seen.has(child.id)) continue
+      seen.add(child.id)
+      if (!child.isDead) alive++
+      pending.push(child.id)
+    }
+  }
+  return { total: seen.size, alive }
+}
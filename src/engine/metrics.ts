@@ -0,0 +1,114 @@
+import { CreatureType, WorldState } from './types'
+import { SPECIES_IDS } from './species'
+
+// Periodic summaries of a world for charts and export. Sampling is one pass
+// over the creatures, so it is cheap enough to run every few ticks.
+
+export const TRACKED_TRAITS = ['vision', 'speed', 'intelligence', 'hunger'] as const
+export type TrackedTrait = typeof TRACKED_TRAITS[number]
+
+export interface TraitSummary {
+  mean: number
+  spread: number // Standard deviation
+}
+
+export interface MetricsSample {
+  gameTime: number
+  population: Record<CreatureType, number> // Living creatures
+  births: number // Since the previous sample
+  deaths: number // Since the previous sample
+  totalBirths: number
+  totalDeaths: number
+  foodAvailable: number
+  traits: Record<CreatureType, Record<TrackedTrait, TraitSummary>> // Over living creatures; zero when none
+}
+
+const bySpecies = <T>(make: () => T) =>
+  Object.fromEntries(SPECIES_IDS.map(type => [type, make()])) as Record<CreatureType, T>
+
+export const sampleWorld = (world: WorldState, previous?: MetricsSample): MetricsSample => {
+  const population = bySpecies(() => 0)
+  const sums = bySpecies(() => TRACKED_TRAITS.map(() => ({ sum: 0, sumSquares: 0 })))
+
+  world.creatures.forEach(creature => {
+    if (creature.isDead) return
+    population[creature.type] += 1
+    const speciesSums = sums[creature.type]
+    TRACKED_TRAITS.forEach((trait, i) => {
+      const value = creature[trait]
+      speciesSums[i].sum += value
+      speciesSums[i].sumSquares += value * value
+    })
+  })
+
+  const traits = bySpecies(() => ({} as Record<TrackedTrait, TraitSummary>))
+  SPECIES_IDS.forEach(type => {
+    const count = population[type]
+    TRACKED_TRAITS.forEach((trait, i) => {
+      const { sum, sumSquares } = sums[type][i]
+      const mean = count > 0 ? sum / count : 0
+      const variance = count > 0 ? Math.max(0, sumSquares / count - mean * mean) : 0
+      traits[type][trait] = { mean, spread: Math.sqrt(variance) }
+    })
+  })
+
+  const totalBirths = world.stats.births
+  const totalDeaths = Object.values(world.stats.deaths).reduce((total, count) => total + count, 0)
+
+  return {
+    gameTime: world.gameTime,
+    population,
+    births: previous ? Math.max(0, totalBirths - previous.totalBirths) : 0,
+    deaths: previous ? Math.max(0, totalDeaths - previous.totalDeaths) : 0,
+    totalBirths,
+    totalDeaths,
+    foodAvailable: world.food.reduce((count, food) => count + (food.isAvailable ? 1 : 0), 0),
+    traits
+  }
+}
+
+// The whole run's samples, kept for export while charts only show the
+// latest few hundred. Once MAX_HISTORY_SAMPLES are kept, neighbouring pairs
+// are merged and from then on each kept sample stands for twice as many, so
+// a run of any length fits in the same memory and its samples stay evenly
+// spaced. Like timelines, histories are updated in place.
+export const MAX_HISTORY_SAMPLES = 4096
+
+export interface MetricsHistory {
+  samples: MetricsSample[]
+  stride: number // Samples merged into each kept one
+  filled: number // Samples merged into the newest kept one so far
+}
+
+// A sample standing for both intervals: counts over both, the state at the end
+const mergeSamples = (earlier: MetricsSample, later: MetricsSample): MetricsSample => ({
+  ...later,
+  births: earlier.births + later.births,
+  deaths: earlier.deaths + later.deaths
+})
+
+export const createMetricsHistory = (first: MetricsSample): MetricsHistory => ({ samples: [first], stride: 1, filled: 1 })
+
+export const recordSample = (history: MetricsHistory, sample: MetricsSample) => {
+  const { samples } = history
+  if (history.filled < history.stride) {
+    samples[samples.length - 1] = mergeSamples(samples[samples.length - 1], sample)
+    history.filled += 1
+    return
+  }
+  if (samples.length >= MAX_HISTORY_SAMPLES) {
+    const merged: MetricsSample[] = []
+    for (let i = 0; i + 1 < samples.length; i += 2) merged.push(mergeSamples(samples[i], samples[i + 1]))
+    history.samples = merged
+    history.stride *= 2
+  }
+  history.samples.push(sample)
+  history.filled = 1
+}
+
+// Drop samples taken after gameTime, e.g. when branching from a replay. A
+// merged sample reaching past gameTime goes too.
+export const truncateHistory = (history: MetricsHistory, gameTime: number) => {
+  history.samples = history.samples.filter(sample => sample.gameTime <= gameTime)
+  history.filled = history.stride
+}
@@ -0,0 +1,362 @@
+import { Creature, Obstacle, Vector3 } from './types'
+import { MoveResult, TickContext, WALL_BOUNDARY } from './context'
+import { SpatialHash, createSpatialHash } from './spatialHash'
+
+// Getting around obstacles. Long walks are planned with A* over a grid of
+// the arena and smoothed into a few straight legs; every step is then
+// steered locally away from nearby creatures and obstacles, and never ends
+// inside an obstacle.
+
+const CELL_SIZE = 1
+const GRID_EXTENT = 50 // The grid covers -GRID_EXTENT to GRID_EXTENT on both axes
+const GRID_CELLS = Math.round(GRID_EXTENT * 2 / CELL_SIZE)
+
+// Room kept between planned paths and obstacles: grid cells this close are
+// blocked, and smoothed legs stay this far from trunks
+const CLEARANCE = 0.4
+const SIGHT_CLEARANCE = 0.2
+
+// Searches that expand this many cells give up and walk straight
+const MAX_EXPANSIONS = 4000
+
+// Intermediate waypoints count as reached this close
+const WAYPOINT_RADIUS = 0.75
+
+// Local steering: how far away neighbours and obstacles are felt, and how
+// strongly they push compared with the pull towards the waypoint
+const SEPARATION_RADIUS = 0.8
+const SEPARATION_WEIGHT = 0.6
+const AVOID_DISTANCE = 1
+const AVOID_WEIGHT = 1.2
+const PUSH_OUT_PASSES = 3
+
+export interface NavGrid {
+  blocked: Uint8Array // One per cell, row-major by z then x
+  obstacles: Map<string, Obstacle>
+  obstacleIndex: SpatialHash
+  largestRadius: number
+}
+
+const cellOf = (value: number) => Math.max(0, Math.min(GRID_CELLS - 1, Math.floor((value + GRID_EXTENT) / CELL_SIZE)))
+const cellCentre = (cell: number) => -GRID_EXTENT + (cell + 0.5) * CELL_SIZE
+
+const buildNavGrid = (obstacles: Obstacle[]): NavGrid => {
+  const blocked = new Uint8Array(GRID_CELLS * GRID_CELLS)
+  const obstacleIndex = createSpatialHash()
+
+  // Cells past the walls
+  for (let cz = 0; cz < GRID_CELLS; cz++) {
+    for (let cx = 0; cx < GRID_CELLS; cx++) {
+      if (Math.abs(cellCentre(cx)) > WALL_BOUNDARY || Math.abs(cellCentre(cz)) > WALL_BOUNDARY) blocked[cz * GRID_CELLS + cx] = 1
+    }
+  }
+
+  // Cells whose centre is within an obstacle plus clearance
+  obstacles.forEach(obstacle => {
+    obstacleIndex.insert(obstacle.id, obstacle.position.x, obstacle.position.z)
+    const reach = obstacle.radius + CLEARANCE
+    for (let cz = cellOf(obstacle.position.z - reach); cz <= cellOf(obstacle.position.z + reach); cz++) {
+      for (let cx = cellOf(obstacle.position.x - reach); cx <= cellOf(obstacle.position.x + reach); cx++) {
+        const dx = cellCentre(cx) - obstacle.position.x
+        const dz = cellCentre(cz) - obstacle.position.z
+        if (dx * dx + dz * dz < reach * reach) blocked[cz * GRID_CELLS + cx] = 1
+      }
+    }
+  })
+
+  return {
+    blocked,
+    obstacles: new Map(obstacles.map(obstacle => [obstacle.id, obstacle])),
+    obstacleIndex,
+    largestRadius: obstacles.reduce((largest, obstacle) => Math.max(largest, obstacle.radius), 0)
+  }
+}
+
+// Obstacles never change during a run, so each layout is built once and
+// shared by every tick that uses it
+const navGrids = new WeakMap<Obstacle[], NavGrid>()
+
+export const navGridFor = (obstacles: Obstacle[]): NavGrid => {
+  let grid = navGrids.get(obstacles)
+  if (!grid) {
+    grid = buildNavGrid(obstacles)
+    navGrids.set(obstacles, grid)
+  }
+  return grid
+}
+
+// Obstacles whose footprint could reach within range of a point
+const obstaclesNear = (grid: NavGrid, x: number, z: number, range: number): Obstacle[] =>
+  grid.obstacleIndex.query(x, z, range + grid.largestRadius).map(id => grid.obstacles.get(id)!)
+
+// Whether a point lies inside an obstacle's footprint
+export const insideObstacle = (grid: NavGrid, x: number, z: number) =>
+  obstaclesNear(grid, x, z, 0).some(obstacle => {
+    const dx = x - obstacle.position.x
+    const dz = z - obstacle.position.z
+    return dx * dx + dz * dz < obstacle.radius * obstacle.radius
+  })
+
+// Whether the straight segment from a to b keeps clear of every obstacle
+const lineOfSight = (grid: NavGrid, a: Vector3, b: Vector3) => {
+  const abx = b.x - a.x
+  const abz = b.z - a.z
+  const lengthSquared = abx * abx + abz * abz
+  const midX = (a.x + b.x) / 2
+  const midZ = (a.z + b.z) / 2
+  return obstaclesNear(grid, midX, midZ, Math.sqrt(lengthSquared) / 2 + SIGHT_CLEARANCE).every(obstacle => {
+    // Closest point on the segment to the obstacle's centre
+    const t = lengthSquared > 0
+      ? Math.max(0, Math.min(1, ((obstacle.position.x - a.x) * abx + (obstacle.position.z - a.z) * abz) / lengthSquared))
+      : 0
+    const dx = a.x + abx * t - obstacle.position.x
+    const dz = a.z + abz * t - obstacle.position.z
+    const reach = obstacle.radius + SIGHT_CLEARANCE
+    return dx * dx + dz * dz >= reach * reach
+  })
+}
+
+// Search scratch space, reused between searches. A cell's scores are only
+// valid when its stamp matches the current search.
+const gScore = new Float64Array(GRID_CELLS * GRID_CELLS)
+const cameFrom = new Int32Array(GRID_CELLS * GRID_CELLS)
+const stamp = new Uint32Array(GRID_CELLS * GRID_CELLS)
+const closed = new Uint32Array(GRID_CELLS * GRID_CELLS)
+let searchId = 0
+
+const NEIGHBOURS: [dx: number, dz: number, cost: number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2]
+]
+
+// Octile distance between two cells
+const heuristic = (ax: number, az: number, bx: number, bz: number) => {
+  const dx = Math.abs(ax - bx)
+  const dz = Math.abs(az - bz)
+  return Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz)
+}
+
+// A* from cell to cell over free cells, without cutting corners. The start
+// and goal cells are always allowed, so creatures brushing an obstacle can
+// still leave and food beside one can still be reached. Returns cells from
+// start to goal, or null when there is no way through.
+const searchCells = (grid: NavGrid, start: number, goal: number): number[] | null => {
+  searchId += 1
+  const goalX = goal % GRID_CELLS
+  const goalZ = Math.floor(goal / GRID_CELLS)
+  const free = (cell: number) => cell === goal || cell === start || grid.blocked[cell] === 0
+
+  // Binary min-heap of [f, cell]
+  const heap: [number, number][] = []
+  const push = (entry: [number, number]) => {
+    heap.push(entry)
+    let i = heap.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (heap[parent][0] <= heap[i][0]) break
+      ;[heap[parent], heap[i]] = [heap[i], heap[parent]]
+      i = parent
+    }
+  }
+  const pop = (): [number, number] => {
+    const top = heap[0]
+    const last = heap.pop()!
+    if (heap.length > 0) {
+      heap[0] = last
+      let i = 0
+      for (;;) {
+        const left = i * 2 + 1
+        const right = left + 1
+        let smallest = i
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right
+        if (smallest === i) break
+        ;[heap[smallest], heap[i]] = [heap[i], heap[smallest]]
+        i = smallest
+      }
+    }
+    return top
+  }
+
+  stamp[start] = searchId
+  gScore[start] = 0
+  cameFrom[start] = -1
+  push([heuristic(start % GRID_CELLS, Math.floor(start / GRID_CELLS), goalX, goalZ), start])
+
+  let expansions = 0
+  while (heap.length > 0 && expansions < MAX_EXPANSIONS) {
+    const [, cell] = pop()
+    if (closed[cell] === searchId) continue
+    closed[cell] = searchId
+    expansions += 1
+
+    if (cell === goal) {
+      const cells = [goal]
+      while (cameFrom[cells[0]] !== -1) cells.unshift(cameFrom[cells[0]])
+      return cells
+    }
+
+    const cx = cell % GRID_CELLS
+    const cz = Math.floor(cell / GRID_CELLS)
+    for (const [dx, dz, cost] of NEIGHBOURS) {
+      const nx = cx + dx
+      const nz = cz + dz
+      if (nx < 0 || nz < 0 || nx >= GRID_CELLS || nz >= GRID_CELLS) continue
+      const next = nz * GRID_CELLS + nx
+      if (!free(next) || closed[next] === searchId) continue
+      if (dx !== 0 && dz !== 0 && (!free(cz * GRID_CELLS + nx) || !free(nz * GRID_CELLS + cx))) continue
+
+      const g = gScore[cell] + cost
+      if (stamp[next] === searchId && g >= gScore[next]) continue
+      stamp[next] = searchId
+      gScore[next] = g
+      cameFrom[next] = cell
+      push([g + heuristic(nx, nz, goalX, goalZ), next])
+    }
+  }
+  return null
+}
+
+// Waypoints from one point to another around obstacles, ending exactly at
+// the target. Straight when nothing is in the way; otherwise the grid path
+// is pulled tight so only its corners remain. If there is no way through,
+// the target is headed for directly and steering does what it can.
+export const planPath = (grid: NavGrid, from: Vector3, to: Vector3): Vector3[] => {
+  const target = { x: to.x, y: to.y, z: to.z }
+  if (lineOfSight(grid, from, to)) return [target]
+
+  const cells = searchCells(grid, cellOf(from.z) * GRID_CELLS + cellOf(from.x), cellOf(to.z) * GRID_CELLS + cellOf(to.x))
+  if (!cells) return [target]
+
+  const points = cells.slice(1, -1).map(cell => ({ x: cellCentre(cell % GRID_CELLS), y: to.y, z: cellCentre(Math.floor(cell / GRID_CELLS)) }))
+  points.push(target)
+
+  // String pulling: from each corner, skip to the furthest point still in sight
+  const path: Vector3[] = []
+  let anchor = from
+  let i = 0
+  while (i < points.length) {
+    let furthest = i
+    while (furthest + 1 < points.length && lineOfSight(grid, anchor, points[furthest + 1])) furthest += 1
+    path.push(points[furthest])
+    anchor = points[furthest]
+    i = furthest + 1
+  }
+  return path
+}
+
+// One step of up to stepLength towards a point, bent away from nearby
+// creatures (except ignoreId, e.g. prey being chased) and obstacles, then
+// pushed out of any obstacle it would end up inside. Axes that would cross
+// a wall stay put.
+export const steer = (creature: Creature, target: Vector3, stepLength: number, ctx: TickContext, ignoreId?: string): MoveResult => {
+  const { position } = creature
+  const dx = target.x - position.x
+  const dz = target.z - position.z
+  const distance = Math.sqrt(dx * dx + dz * dz)
+  if (distance < 0.5) return { position, arrived: true, hitWall: false }
+
+  let dirX = dx / distance
+  let dirZ = dz / distance
+
+  // Keep a little apart from other creatures
+  for (const id of ctx.creatureIndex.query(position.x, position.z, SEPARATION_RADIUS)) {
+    if (id === creature.id || id === ignoreId) continue
+    const other = ctx.getCreature(id).position
+    const ox = position.x - other.x
+    const oz = position.z - other.z
+    const d = Math.sqrt(ox * ox + oz * oz)
+    if (d === 0 || d >= SEPARATION_RADIUS) continue
+    const push = SEPARATION_WEIGHT * (1 - d / SEPARATION_RADIUS) / d
+    dirX += ox * push
+    dirZ += oz * push
+  }
+
+  // Veer sideways around obstacles close ahead. Going round rather than
+  // straight back means an obstacle dead ahead can't stop us in our tracks.
+  const aheadX = dirX
+  const aheadZ = dirZ
+  for (const obstacle of obstaclesNear(ctx.navigation, position.x, position.z, AVOID_DISTANCE)) {
+    const ox = obstacle.position.x - position.x
+    const oz = obstacle.position.z - position.z
+    const d = Math.sqrt(ox * ox + oz * oz)
+    const gap = d - obstacle.radius
+    const along = ox * aheadX + oz * aheadZ
+    if (gap >= AVOID_DISTANCE || along <= 0) continue // Behind us or far enough
+    // Away from the obstacle's centre across our heading; to the left if dead ahead
+    let sideX = along * aheadX - ox
+    let sideZ = along * aheadZ - oz
+    const side = Math.sqrt(sideX * sideX + sideZ * sideZ)
+    if (side < 1e-6) {
+      sideX = -aheadZ
+      sideZ = aheadX
+    } else {
+      sideX /= side
+      sideZ /= side
+    }
+    const push = AVOID_WEIGHT * (1 - Math.max(0, gap) / AVOID_DISTANCE)
+    dirX += sideX * push
+    dirZ += sideZ * push
+  }
+
+  const length = Math.sqrt(dirX * dirX + dirZ * dirZ) || 1
+  const step = Math.min(stepLength, distance)
+  let nextX = position.x + dirX / length * step
+  let nextZ = position.z + dirZ / length * step
+
+  // Slide around anything we would walk into. Pushing out of one obstacle
+  // can push into a neighbouring one, so this takes a few passes.
+  for (let pass = 0; pass < PUSH_OUT_PASSES; pass++) {
+    let moved = false
+    for (const obstacle of obstaclesNear(ctx.navigation, nextX, nextZ, 0)) {
+      const ox = nextX - obstacle.position.x
+      const oz = nextZ - obstacle.position.z
+      const d = Math.sqrt(ox * ox + oz * oz)
+      if (d >= obstacle.radius) continue
+      const scale = d > 0 ? obstacle.radius / d : 0
+      nextX = d > 0 ? obstacle.position.x + ox * scale : obstacle.position.x + obstacle.radius
+      nextZ = d > 0 ? obstacle.position.z + oz * scale : nextZ
+      moved = true
+    }
+    if (!moved) break
+  }
+
+  const next = { ...position }
+  let hitWall = false
+  if (nextX >= -WALL_BOUNDARY && nextX <= WALL_BOUNDARY) next.x = nextX
+  else hitWall = true
+  if (nextZ >= -WALL_BOUNDARY && nextZ <= WALL_BOUNDARY) next.z = nextZ
+  else hitWall = true
+
+  // Wedged between obstacles, or against a wall: stay put rather than step
+  // inside something, and report it like a wall so the target is given up.
+  // Creatures already inside (e.g. from an old save) are let out.
+  if (insideObstacle(ctx.navigation, next.x, next.z) && !insideObstacle(ctx.navigation, position.x, position.z)) {
+    return { position, arrived: false, hitWall: true }
+  }
+  return { position: next, arrived: false, hitWall }
+}
+
+const samePoint = (a: Vector3, b: Vector3) => a.x === b.x && a.z === b.z
+
+// One step along a planned route to target, planning a new one when the
+// target has changed. Arrived only once the last waypoint is reached; the
+// returned path is what's left of the route, to store on the creature.
+export const followPath = (creature: Creature, target: Vector3, stepLength: number, ctx: TickContext, ignoreId?: string): MoveResult & { path: Vector3[] } => {
+  let path = creature.path && creature.path.length > 0 && samePoint(creature.path[creature.path.length - 1], target)
+    ? creature.path
+    : planPath(ctx.navigation, creature.position, target)
+
+  // Drop intermediate waypoints already reached
+  let reached = 0
+  while (reached < path.length - 1) {
+    const dx = path[reached].x - creature.position.x
+    const dz = path[reached].z - creature.position.z
+    if (dx * dx + dz * dz > WAYPOINT_RADIUS * WAYPOINT_RADIUS) break
+    reached += 1
+  }
+  if (reached > 0) path = path.slice(reached)
+
+  const move = steer(creature, path[0], stepLength, ctx, ignoreId)
+  return { ...move, arrived: move.arrived && path.length === 1, path }
+}
@@ -0,0 +1,33 @@
+import { createRng, deriveSeed } from '../utils/random'
+import { Obstacle } from './types'
+import { IdCounter, createIdCounter } from './world'
+
+// Static obstacles, laid out once from the world seed. The renderer draws
+// the scenery from these, so what creatures walk around is what is shown.
+
+export const TREE_COUNT = 64
+
+// Trunk footprint of a tree at scale 1
+const TREE_RADIUS = 0.6
+
+// Trees grow in a ring around the open meadow in the middle
+const TREE_MIN_RADIUS = 15
+const TREE_MAX_RADIUS = 50
+
+export const generateObstacles = (seed: number, trees = TREE_COUNT, ids: IdCounter = createIdCounter(0)): Obstacle[] => {
+  const rng = createRng(deriveSeed(seed, 'obstacles'))
+  return Array.from({ length: trees }, (): Obstacle => {
+    const angle = rng.next() * Math.PI * 2
+    const distance = TREE_MIN_RADIUS + rng.next() * (TREE_MAX_RADIUS - TREE_MIN_RADIUS)
+    const scale = 0.6 + rng.next() * 0.6 // Between 0.6 and 1.2
+    return {
+      id: ids.next(),
+      kind: 'tree',
+      position: { x: Math.cos(angle) * distance, y: 0, z: Math.sin(angle) * distance },
+      radius: TREE_RADIUS * scale,
+      rotationY: rng.next() * Math.PI * 2,
+      scale,
+      variant: rng.next()
+    }
+  })
+}
@@ -0,0 +1,130 @@
+import { Environment, Food, SimulationEvent, StepResult, WorldState } from './types'
+import { createTickContext } from './context'
+import { getSpecies, isHunter } from './species'
+import { simulateForager } from './foragers'
+import { simulateHunter } from './hunters'
+import { spendEnergy } from './energy'
+import { FOODS, SEASON_GROWTH, createFood, randomFoodType, randomPositionIn } from './foods'
+import { insideObstacle } from './navigation'
+import { regrowthRate, updateWeather, weatherLight } from './weather'
+import { seasonAt, timeOfDayAt } from './clock'
+
+// Game time units covered by one fixed simulation tick
+export const TICK_DELTA = 1
+
+// Random spawning stops once the world holds this many food items
+export const MAX_FOOD = 300
+
+// Chance per tick of new food appearing in spring; other seasons scale it
+const FOOD_SPAWN_CHANCE = 0.005
+
+// Light level by time of day, before the weather dims it
+const DAYLIGHT: Record<Environment['timeOfDay'], number> = { morning: 80, afternoon: 100, evening: 60, night: 20 }
+
+// Advance the world by one tick of deltaTime game units.
+// Pure: the input world is never mutated and the same input always produces
+// the same output, so this runs just as well in Node as in the browser.
+//
+// The tick builds the next world in a single pass over one draft:
+// - Creatures act one at a time in array order (oldest first).
+// - Every read goes to the draft, so a creature sees the positions, states
+//   and hunger of creatures that already acted this tick, and changes made
+//   to itself by them (e.g. a partner that started breeding with it).
+// - Eating claims food immediately: food eaten earlier in the tick is gone
+//   for everyone after.
+// - Bites work the same way: a goose bitten earlier in the tick has lost
+//   that health for everyone after, and one killed does not act if it
+//   comes later in the order.
+// - Babies born this tick join the draft but first act next tick.
+// - Energy is charged straight after each creature's turn, from how far it
+//   moved during it.
+// - A creature's own record is copied once per turn and then changed in
+//   place, so behaviours must read the creature as it was at the start of
+//   its turn from the record they were passed, not from getCreature.
+// - The environment is read as it was at the start of the tick and updated
+//   once at the end.
+// - Flocks are too: alignment and cohesion read where flockmates stood at
+//   the start of the tick (see flocking.ts), not where they have moved to.
+export const stepWorld = (world: WorldState, deltaTime: number): StepResult => {
+  const now = world.gameTime
+  const ctx = createTickContext(world, deltaTime)
+  const { rng, ids, events, creatures, food, addFood, updateFood, foodIndex } = ctx
+  let environment = world.environment
+
+  const creatureCount = creatures.length // Babies born this tick wait for the next one
+  for (let i = 0; i < creatureCount; i++) {
+    const creature = creatures[i]
+    ctx.beginTurn(creature.id)
+    if (isHunter(getSpecies(creature.type))) simulateHunter(creature, ctx)
+    else simulateForager(creature, ctx)
+    spendEnergy(creature, ctx)
+  }
+
+  // Eaten food grows back over its respawn time, faster in the rain
+  const growthRate = regrowthRate(environment)
+  food.forEach(foodItem => {
+    if (foodItem.isAvailable) return
+    const growth = foodItem.growth + deltaTime * growthRate
+    if (growth > foodItem.respawnTime) {
+      updateFood(foodItem.id, {
+        isAvailable: true,
+        growth
+      })
+      foodIndex.insert(foodItem.id, foodItem.position.x, foodItem.position.z)
+      events.push({ type: 'foodRespawned', time: now, foodId: foodItem.id })
+    } else {
+      updateFood(foodItem.id, { growth })
+    }
+  })
+
+  // Food generation (new food spawns randomly, more often in lush seasons),
+  // capped so the world doesn't fill up with food over long runs
+  if (food.length < MAX_FOOD && rng.next() < FOOD_SPAWN_CHANCE * SEASON_GROWTH[environment.season]) {
+    // A type picked by spawn weight, somewhere in the biome it grows in.
+    // Nothing grows where a tree stands.
+    const type = randomFoodType(rng)
+    const newFood: Food = {
+      id: ids.next(),
+      ...createFood(type, randomPositionIn(FOODS[type].biome, rng))
+    }
+    if (!insideObstacle(ctx.navigation, newFood.position.x, newFood.position.z)) {
+      addFood(newFood)
+      events.push({ type: 'foodSpawned', time: now, foodId: newFood.id, position: newFood.position })
+    }
+  }
+
+  // Update environment: the calendar, then the weather, which dims the light
+  const timeOfDay = timeOfDayAt(now)
+  environment = updateWeather({ ...environment, timeOfDay, season: seasonAt(now) }, now, deltaTime, rng, events)
+  environment = { ...environment, lightLevel: DAYLIGHT[timeOfDay] * weatherLight(environment) }
+
+  return {
+    world: {
+      ...world,
+      creatures,
+      food,
+      environment,
+      gameTime: now + deltaTime,
+      stats: ctx.stats,
+      rngState: rng.getState(),
+      nextId: ids.getState()
+    },
+    events
+  }
+}
+
+// Step a world many times without a renderer, e.g. from a script or a test
+export const runWorld = (
+  world: WorldState,
+  steps: number,
+  deltaTime = TICK_DELTA,
+  onEvent?: (event: SimulationEvent) => void
+): WorldState => {
+  let current = world
+  for (let i = 0; i < steps; i++) {
+    const result = stepWorld(current, deltaTime)
+    current = result.world
+    if (onEvent) result.events.forEach(onEvent)
+  }
+  return current
+}
@@ -0,0 +1,327 @@
+import { Creature, Food, Genome, WorldState } from './types'
+import { generateObstacles } from './obstacles'
+import { SPECIES_IDS } from './species'
+import { FOOD_TYPES } from './foods'
+
+// Versioned, JSON-safe snapshots of a world.
+// Bump SNAPSHOT_VERSION whenever the shape of WorldState, Creature or Food
+// changes, and add a migration from the previous version below so old saves
+// keep loading.
+
+export const SNAPSHOT_VERSION = 11
+
+// Speeds a save can ask the game loop for: the x1 to x10 of the speed control
+export const MIN_SPEED = 1
+export const MAX_SPEED = 10
+
+export interface WorldSnapshot {
+  version: number
+  savedAt: string // ISO timestamp
+  speed: number
+  world: WorldState
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SnapshotError'
+  }
+}
+
+// Raw parsed JSON from an older save. Nothing in it is trusted: migrations
+// narrow each field they read, so a malformed save fails with a
+// SnapshotError rather than a TypeError.
+export type RawRecord = Record<string, unknown>
+
+export interface RawWorld extends RawRecord {
+  creatures: RawRecord[]
+  food: RawRecord[]
+}
+
+export interface RawSnapshot extends RawRecord {
+  version: number
+  world: RawWorld
+}
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isRecordArray = (value: unknown): value is RawRecord[] =>
+  Array.isArray(value) && value.every(isRecord)
+
+// Field readers for migrations
+const recordField = (value: unknown, name: string): RawRecord => {
+  if (!isRecord(value)) throw new SnapshotError(`Snapshot ${name} is not an object`)
+  return value
+}
+
+const numberField = (value: unknown, name: string): number => {
+  if (typeof value !== 'number') throw new SnapshotError(`Snapshot ${name} is not a number`)
+  return value
+}
+
+const stringField = (value: unknown, name: string): string => {
+  if (typeof value !== 'string') throw new SnapshotError(`Snapshot ${name} is not a string`)
+  return value
+}
+
+const booleanField = (value: unknown, name: string): boolean => {
+  if (typeof value !== 'boolean') throw new SnapshotError(`Snapshot ${name} is not true or false`)
+  return value
+}
+
+const oneOfField = <T extends string>(value: unknown, options: readonly T[], name: string): T => {
+  if (!options.includes(value as T)) throw new SnapshotError(`Snapshot ${name} is not one of ${options.join(', ')}`)
+  return value as T
+}
+
+const vectorField = (value: unknown, name: string) => {
+  const vector = recordField(value, name)
+  numberField(vector.x, `${name} x`)
+  numberField(vector.y, `${name} y`)
+  numberField(vector.z, `${name} z`)
+  return vector
+}
+
+const hasParents = (creature: RawRecord) => Array.isArray(creature.parentIds) && creature.parentIds.length > 0
+
+// migrations[n] upgrades a version n snapshot to version n + 1
+const migrations: Record<number, (snapshot: RawSnapshot) => RawSnapshot> = {
+  // v2 added foxes: death causes and running death counts. Every death
+  // before then was starvation.
+  1: (snapshot) => {
+    const creatures = snapshot.world.creatures.map(creature =>
+      creature.isDead ? { ...creature, deathCause: 'starvation' } : creature
+    )
+    const starvation = creatures.filter(creature => creature.isDead).length
+    return {
+      ...snapshot,
+      world: { ...snapshot.world, creatures, stats: { deaths: { starvation, predation: 0 } } }
+    }
+  },
+
+  // v3 added genomes. Older creatures get one matching their current
+  // traits, at the body size everyone had before sizes varied.
+  2: (snapshot) => ({
+    ...snapshot,
+    world: {
+      ...snapshot.world,
+      creatures: snapshot.world.creatures.map(creature => ({
+        ...creature,
+        genome: {
+          vision: creature.vision,
+          speed: creature.speed,
+          intelligence: creature.intelligence,
+          breedingCooldown: creature.breedingCooldown,
+          bodySize: 1
+        }
+      }))
+    }
+  }),
+
+  // v4 added lineage. Parents were never recorded, so every older creature
+  // becomes a founder, and birth times are unknown so they are set to 0.
+  3: (snapshot) => ({
+    ...snapshot,
+    world: {
+      ...snapshot.world,
+      creatures: snapshot.world.creatures.map(creature => ({
+        ...creature,
+        parentIds: [],
+        generation: 0,
+        birthTime: 0
+      }))
+    }
+  }),
+
+  // v5 counts births: every creature with parents on record was born
+  4: (snapshot) => {
+    const births = snapshot.world.creatures.filter(hasParents).length
+    return {
+      ...snapshot,
+      world: { ...snapshot.world, stats: { ...recordField(snapshot.world.stats, 'stats'), births } }
+    }
+  },
+
+  // v6 added meal counts and death times for export. Earlier meals went
+  // uncounted; a dead creature's last state change was its death.
+  5: (snapshot) => ({
+    ...snapshot,
+    world: {
+      ...snapshot.world,
+      creatures: snapshot.world.creatures.map(creature => ({
+        ...creature,
+        mealsEaten: 0,
+        ...(creature.isDead ? { deathTime: creature.lastStateChange } : {})
+      }))
+    }
+  }),
+
+  // v7 added ageing and death from old age. Lifespans get the middle of each
+  // species' starting range, and founders are backdated by the maturity age
+  // like newly spawned ones so they don't shrink back into juveniles.
+  6: (snapshot) => {
+    const stats = recordField(snapshot.world.stats, 'stats')
+    return {
+      ...snapshot,
+      world: {
+        ...snapshot.world,
+        stats: { ...stats, deaths: { ...recordField(stats.deaths, 'death counts'), oldAge: 0 } },
+        creatures: snapshot.world.creatures.map(creature => {
+          const fox = creature.type === 'fox'
+          const birthTime = numberField(creature.birthTime, 'birth time')
+          return {
+            ...creature,
+            genome: { ...recordField(creature.genome, 'genome'), lifespan: fox ? 80000 : 60000 },
+            birthTime: hasParents(creature) ? birthTime : birthTime - (fox ? 15000 : 10000)
+          }
+        })
+      }
+    }
+  },
+
+  // v8 added obstacles. Older saves get the trees a new world with the same
+  // seed would have.
+  7: (snapshot) => ({
+    ...snapshot,
+    world: { ...snapshot.world, obstacles: generateObstacles(numberField(snapshot.world.seed, 'seed')) }
+  }),
+
+  // v9 draws food where it is. The starting tulips used to sit at y = -2.8,
+  // out of sight; everything now grows on the ground.
+  8: (snapshot) => ({
+    ...snapshot,
+    world: {
+      ...snapshot.world,
+      food: snapshot.world.food.map(food => ({
+        ...food,
+        position: { ...recordField(food.position, 'food position'), y: 0 }
+      }))
+    }
+  }),
+
+  // v10 tracks regrowth so rain can speed it up. Eaten food has grown for
+  // as long as it's been eaten.
+  9: (snapshot) => {
+    const gameTime = numberField(snapshot.world.gameTime, 'game time')
+    return {
+      ...snapshot,
+      world: {
+        ...snapshot.world,
+        food: snapshot.world.food.map(food => ({
+          ...food,
+          growth: food.isAvailable ? 0 : Math.max(0, gameTime - numberField(food.lastEaten, 'food last eaten'))
+        }))
+      }
+    }
+  },
+
+  // v11 numbers new entities from a counter. Older IDs are at most nine
+  // random base 36 digits, so counting from 36^9 keeps new ones clear of them.
+  10: (snapshot) => ({
+    ...snapshot,
+    world: { ...snapshot.world, nextId: 36 ** 9 }
+  })
+}
+
+// Shape checks for saved creatures and food, run on every save once it has
+// been migrated, whatever version it came from
+const CREATURE_NUMBERS: (keyof Creature)[] = [
+  'health', 'energy', 'idleAnimation', 'generation', 'birthTime', 'vision', 'hunger', 'speed', 'intelligence',
+  'lastStateChange', 'lastBreedingTime', 'breedingCooldown', 'mealsEaten'
+]
+const CREATURE_FLAGS: (keyof Creature)[] = ['isMoving', 'isIdle', 'isDead']
+const GENES: (keyof Genome)[] = ['vision', 'speed', 'intelligence', 'breedingCooldown', 'bodySize', 'lifespan']
+const FOOD_NUMBERS: (keyof Food)[] = ['nutritionValue', 'respawnTime', 'lastEaten', 'growth']
+
+const checkCreature = (creature: RawRecord, index: number) => {
+  const name = `creature ${index}`
+  stringField(creature.id, `${name} id`)
+  oneOfField(creature.type, SPECIES_IDS, `${name} type`)
+  stringField(creature.state, `${name} state`)
+  vectorField(creature.position, `${name} position`)
+  vectorField(creature.rotation, `${name} rotation`)
+  vectorField(creature.scale, `${name} scale`)
+  CREATURE_NUMBERS.forEach(field => numberField(creature[field], `${name} ${field}`))
+  CREATURE_FLAGS.forEach(field => booleanField(creature[field], `${name} ${field}`))
+  const genome = recordField(creature.genome, `${name} genome`)
+  GENES.forEach(gene => numberField(genome[gene], `${name} gene ${gene}`))
+  if (!Array.isArray(creature.parentIds)) throw new SnapshotError(`Snapshot ${name} parentIds is not a list`)
+  creature.parentIds.forEach(id => stringField(id, `${name} parent id`))
+  if (creature.targetPosition !== undefined) vectorField(creature.targetPosition, `${name} target position`)
+  if (creature.path !== undefined) {
+    if (!Array.isArray(creature.path)) throw new SnapshotError(`Snapshot ${name} path is not a list`)
+    creature.path.forEach(waypoint => vectorField(waypoint, `${name} path waypoint`))
+  }
+}
+
+const checkFood = (food: RawRecord, index: number) => {
+  const name = `food ${index}`
+  stringField(food.id, `${name} id`)
+  oneOfField(food.type, FOOD_TYPES, `${name} type`)
+  vectorField(food.position, `${name} position`)
+  booleanField(food.isAvailable, `${name} isAvailable`)
+  FOOD_NUMBERS.forEach(field => numberField(food[field], `${name} ${field}`))
+}
+
+export const createSnapshot = (world: WorldState, speed: number): WorldSnapshot => ({
+  version: SNAPSHOT_VERSION,
+  savedAt: new Date().toISOString(),
+  speed,
+  world
+})
+
+export const serializeSnapshot = (snapshot: WorldSnapshot): string => JSON.stringify(snapshot)
+
+export const migrateSnapshot = (raw: unknown): WorldSnapshot => {
+  if (!isRecord(raw)) {
+    throw new SnapshotError('Snapshot is not an object')
+  }
+  const { version, world: rawWorld } = raw
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new SnapshotError('Snapshot has no valid version')
+  }
+  if (version > SNAPSHOT_VERSION) {
+    throw new SnapshotError(`Snapshot version ${version} is newer than supported version ${SNAPSHOT_VERSION}`)
+  }
+  // Every version has had these; check them before any migration reads them
+  if (!isRecord(rawWorld) || !isRecordArray(rawWorld.creatures) || !isRecordArray(rawWorld.food)) {
+    throw new SnapshotError('Snapshot world is incomplete')
+  }
+
+  let snapshot: RawSnapshot = { ...raw, version, world: { ...rawWorld, creatures: rawWorld.creatures, food: rawWorld.food } }
+  while (snapshot.version < SNAPSHOT_VERSION) {
+    const migrate = migrations[snapshot.version]
+    if (!migrate) {
+      throw new SnapshotError(`No migration from snapshot version ${snapshot.version}`)
+    }
+    snapshot = { ...migrate(snapshot), version: snapshot.version + 1 }
+  }
+
+  const world = snapshot.world
+  if (!world || !Array.isArray(world.creatures) || !Array.isArray(world.food) || !Array.isArray(world.obstacles) ||
+      typeof world.gameTime !== 'number' || typeof world.seed !== 'number' ||
+      typeof world.rngState !== 'number' || typeof world.nextId !== 'number' || !world.environment || !world.stats) {
+    throw new SnapshotError('Snapshot world is incomplete')
+  }
+  world.creatures.forEach(checkCreature)
+  world.food.forEach(checkFood)
+
+  // A speed the game loop can't run at would stall it
+  const { speed } = snapshot
+  if (typeof speed !== 'number' || !Number.isFinite(speed) || speed < MIN_SPEED || speed > MAX_SPEED) {
+    throw new SnapshotError(`Snapshot speed is not between ${MIN_SPEED} and ${MAX_SPEED}`)
+  }
+
+  return snapshot as unknown as WorldSnapshot
+}
+
+export const parseSnapshot = (json: string): WorldSnapshot => {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new SnapshotError('Snapshot is not valid JSON')
+  }
+  return migrateSnapshot(raw)
+}
@@ -0,0 +1,108 @@
+// Uniform-grid spatial hash over the XZ plane for neighbour queries.
+// Entities are tracked by id; callers keep it in sync with insert, move and
+// remove as things are born, walk, get eaten or respawn. Iteration order is
+// insertion order, so query results are deterministic.
+
+export interface SpatialHash {
+  insert: (id: string, x: number, z: number) => void
+  move: (id: string, x: number, z: number) => void
+  remove: (id: string) => void
+  has: (id: string) => boolean
+  // Ids within the axis-aligned square of half-size range around (x, z)
+  query: (x: number, z: number, range: number) => string[]
+  size: () => number
+}
+
+// Cell size matched to the largest common query (10-unit breeding range)
+export const SPATIAL_CELL_SIZE = 5
+
+interface Entry {
+  x: number
+  z: number
+  cell: number
+}
+
+// Pack two signed cell coordinates into one number key
+export const cellKey = (cx: number, cz: number) => (cx + 32768) * 65536 + (cz + 32768)
+
+export const createSpatialHash = (cellSize = SPATIAL_CELL_SIZE): SpatialHash => {
+  // Each cell's entries by id, so queries read positions without a second
+  // lookup per id
+  const cells = new Map<number, Map<string, Entry>>()
+  const entries = new Map<string, Entry>()
+
+  const toCell = (value: number) => Math.floor(value / cellSize)
+
+  const addToCell = (cell: number, id: string, entry: Entry) => {
+    let bucket = cells.get(cell)
+    if (!bucket) {
+      bucket = new Map()
+      cells.set(cell, bucket)
+    }
+    bucket.set(id, entry)
+  }
+
+  const removeFromCell = (cell: number, id: string) => {
+    const bucket = cells.get(cell)
+    if (!bucket) return
+    bucket.delete(id)
+    if (bucket.size === 0) cells.delete(cell)
+  }
+
+  const insert = (id: string, x: number, z: number) => {
+    const existing = entries.get(id)
+    if (existing) removeFromCell(existing.cell, id)
+    const entry = { x, z, cell: cellKey(toCell(x), toCell(z)) }
+    entries.set(id, entry)
+    addToCell(entry.cell, id, entry)
+  }
+
+  const move = (id: string, x: number, z: number) => {
+    const entry = entries.get(id)
+    if (!entry) return
+    const cell = cellKey(toCell(x), toCell(z))
+    if (cell !== entry.cell) {
+      removeFromCell(entry.cell, id)
+      addToCell(cell, id, entry)
+      entry.cell = cell
+    }
+    entry.x = x
+    entry.z = z
+  }
+
+  const remove = (id: string) => {
+    const entry = entries.get(id)
+    if (!entry) return
+    removeFromCell(entry.cell, id)
+    entries.delete(id)
+  }
+
+  const query = (x: number, z: number, range: number) => {
+    const result: string[] = []
+    const minX = toCell(x - range)
+    const maxX = toCell(x + range)
+    const minZ = toCell(z - range)
+    const maxZ = toCell(z + range)
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        const bucket = cells.get(cellKey(cx, cz))
+        if (!bucket) continue
+        for (const [id, entry] of bucket) {
+          if (Math.abs(entry.x - x) <= range && Math.abs(entry.z - z) <= range) {
+            result.push(id)
+          }
+        }
+      }
+    }
+    return result
+  }
+
+  return {
+    insert,
+    move,
+    remove,
+    has: (id) => entries.has(id),
+    query,
+    size: () => entries.size
+  }
+}
@@ -0,0 +1,178 @@
+import { Creature, CreatureType, Environment, Food, FoodType, Genome } from './types'
+
+// The species registry. Everything that differs between creature types is
+// declared here; spawning, the tick and the renderer look it up by
+// creature.type instead of branching on type names.
+//
+// To add a species, add its id to CreatureType and an entry to SPECIES.
+
+export type StatRange = [min: number, max: number]
+
+export interface SpeciesModel {
+  path?: string // GLB under public/models
+  procedural?: string // Name of a model built in code, for species without a GLB
+  scale: number // Uniform scale baked into the model
+  tintByHunger: boolean // Colour each creature by hunger instead of its materials
+}
+
+export interface SpeciesDiet {
+  food: FoodType[] // Food items it forages for
+  prey: CreatureType[] // Creatures it hunts; a species with prey is a hunter
+}
+
+export interface BreedingRules {
+  enabled: boolean
+  duration: number // Game time spent breeding; the cooldown after is a gene
+  range: number // Partner search range at 100 vision
+  seasons: Environment['season'][] // Times of year pairs form in
+  hungerChange: number // Added to both parents' hunger when a baby is born
+  babyHunger: StatRange
+}
+
+// Boids-style steering among wandering members of the species (see
+// flocking.ts). The weights set how hard each rule pulls compared with a
+// creature's own wish to go somewhere, which counts 1.
+export interface FlockingRules {
+  range: number // Flockmates are seen this far away at 100 vision
+  spacing: number // Flockmates closer than this are pushed away
+  separation: number
+  alignment: number
+  cohesion: number
+}
+
+export interface GeneticsRules {
+  initial: Record<keyof Genome, StatRange> // Gene ranges for spawned creatures
+  limits: Record<keyof Genome, StatRange> // Genes never mutate outside these
+  mutationRate: number // Chance each gene mutates in a baby
+  mutationSize: number // Largest mutation, as a fraction of the gene's limits
+}
+
+export interface LifeRules {
+  maturityAge: number // Juveniles grow to adult size and start breeding at this age
+  starvationDamage: number // Health lost per game time unit at zero hunger
+  oldAgeDamage: number // Health lost per game time unit past the lifespan gene
+  recovery: number // Health regained per game time unit while well fed
+  wellFedHunger: number // Health recovers above this hunger
+}
+
+export interface EnergyRules {
+  moveCost: number // Energy per unit moved at 100 speed; scales with the speed it was covered at
+  idleRecovery: number // Energy regained per game time unit standing still
+  restRecovery: number // Energy regained per game time unit resting
+  exhausted: number // Below this, creatures move at half speed, won't breed and stop to rest
+  sleepsAt: Environment['timeOfDay'] // Part of the day spent resting, hunger permitting
+}
+
+export interface SpeciesDefinition {
+  id: CreatureType
+  name: string
+  hudLabel: string // Plural, as shown in population counts
+  hudColor: string // Colour in charts
+  model: SpeciesModel
+  initialHunger: StatRange // For spawned creatures
+  diet: SpeciesDiet
+  hungerDecay: number // Hunger lost per game time unit
+  life: LifeRules
+  energy: EnergyRules
+  breeding: BreedingRules
+  flocking?: FlockingRules // Species without it go their own way
+  genetics: GeneticsRules
+}
+
+export const SPECIES: Record<CreatureType, SpeciesDefinition> = {
+  goose: {
+    id: 'goose',
+    name: 'Goose',
+    hudLabel: 'Geese',
+    hudColor: '#e5e7eb',
+    model: { path: '/models/goose_low_poly.glb', scale: 0.002, tintByHunger: true }, // The GLB is modelled about 500x too large
+    initialHunger: [30, 70],
+    diet: { food: ['tulip', 'grass', 'berries', 'seeds'], prey: [] },
+    hungerDecay: 0.01,
+    life: {
+      maturityAge: 10000,
+      starvationDamage: 0.05, // A starving goose lasts 2000 units
+      oldAgeDamage: 0.02,
+      recovery: 0.02,
+      wellFedHunger: 50
+    },
+    energy: {
+      moveCost: 0.1,
+      idleRecovery: 0.005,
+      restRecovery: 0.05,
+      exhausted: 20,
+      sleepsAt: 'night'
+    },
+    breeding: {
+      enabled: true,
+      duration: 1500,
+      range: 10,
+      seasons: ['spring', 'summer'],
+      hungerChange: 20,
+      babyHunger: [40, 60]
+    },
+    flocking: {
+      range: 12,
+      spacing: 1.5,
+      separation: 1.5,
+      alignment: 1,
+      cohesion: 1
+    },
+    genetics: {
+      initial: { vision: [50, 80], speed: [30, 70], intelligence: [20, 80], breedingCooldown: [4500, 5500], bodySize: [0.9, 1.1], lifespan: [50000, 70000] },
+      limits: { vision: [30, 90], speed: [20, 80], intelligence: [10, 90], breedingCooldown: [2000, 10000], bodySize: [0.6, 1.5], lifespan: [20000, 120000] },
+      mutationRate: 0.2,
+      mutationSize: 0.1
+    }
+  },
+  fox: {
+    id: 'fox',
+    name: 'Fox',
+    hudLabel: 'Foxes',
+    hudColor: '#f97316',
+    model: { procedural: 'fox', scale: 1, tintByHunger: false },
+    initialHunger: [40, 60],
+    diet: { food: [], prey: ['goose'] },
+    hungerDecay: 0.005, // Half the rate of a goose
+    life: {
+      maturityAge: 15000,
+      starvationDamage: 0.03,
+      oldAgeDamage: 0.02,
+      recovery: 0.01,
+      wellFedHunger: 50
+    },
+    energy: {
+      moveCost: 0.08,
+      idleRecovery: 0.005,
+      restRecovery: 0.04,
+      exhausted: 20,
+      sleepsAt: 'afternoon' // Foxes hunt from dusk through the night
+    },
+    breeding: {
+      enabled: true,
+      duration: 1500,
+      range: 15,
+      seasons: ['spring'],
+      hungerChange: -20, // Raising cubs is hungry work
+      babyHunger: [60, 80]
+    },
+    genetics: {
+      initial: { vision: [60, 90], speed: [50, 80], intelligence: [40, 80], breedingCooldown: [18000, 22000], bodySize: [0.9, 1.1], lifespan: [70000, 90000] },
+      limits: { vision: [40, 95], speed: [35, 90], intelligence: [20, 90], breedingCooldown: [10000, 40000], bodySize: [0.7, 1.4], lifespan: [30000, 150000] },
+      mutationRate: 0.2,
+      mutationSize: 0.1
+    }
+  }
+}
+
+export const SPECIES_IDS = Object.keys(SPECIES) as CreatureType[]
+
+export const getSpecies = (type: CreatureType): SpeciesDefinition => SPECIES[type]
+
+export const isHunter = (species: SpeciesDefinition) => species.diet.prey.length > 0
+
+// Whether creatures of type `hunter` hunt creatures of type `prey`
+export const hunts = (hunter: CreatureType, prey: CreatureType) => SPECIES[hunter].diet.prey.includes(prey)
+
+// Whether a creature of this species can eat this kind of food
+export const eats = (creature: Creature, food: Food) => SPECIES[creature.type].diet.food.includes(food.type)
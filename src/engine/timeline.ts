@@ -0,0 +1,276 @@
+import { Creature, Environment, Food, WorldState, WorldStats } from './types'
+import { advanceIdleAnimation } from './context'
+
+// Recording of a run as periodic keyframes plus per-tick deltas.
+// Frames are addressed by a global tick index; frame startIndex is the first
+// recorded world, and each segment covers keyframeInterval consecutive
+// frames: its keyframe followed by keyframeInterval - 1 deltas.
+//
+// Timelines are append-only logs that can grow large, so recordFrame and
+// truncateTimeline update them in place instead of copying. Cosmetic fields
+// that change every tick are predicted rather than recorded, so creatures
+// that stand still cost nothing (see predictCreature).
+
+export interface EntityPatch<T> {
+  id: string
+  changes: Partial<T>
+}
+
+export interface WorldDelta {
+  gameTime: number
+  rngState: number
+  nextId: number
+  addedCreatures: Creature[]
+  creaturePatches: EntityPatch<Creature>[]
+  removedCreatureIds: string[]
+  addedFood: Food[]
+  foodPatches: EntityPatch<Food>[]
+  removedFoodIds: string[]
+  environment?: Partial<Environment>
+  stats?: WorldStats // Whole stats, only when some count changed
+}
+
+interface TimelineSegment {
+  keyframe: WorldState
+  deltas: WorldDelta[]
+  entries: number // Entities stored in this segment, for the memory budget
+}
+
+export interface Timeline {
+  keyframeInterval: number
+  maxEntries: number // Oldest segments are dropped past this many stored entities
+  startIndex: number
+  segments: TimelineSegment[]
+  entries: number
+  head: WorldState // Most recently recorded world
+}
+
+export const DEFAULT_KEYFRAME_INTERVAL = 300 // 5 seconds at x1
+
+// Recording budget. Stored entities (whole ones in keyframes, patches in
+// deltas) take about this much memory each on average, measured with a few
+// hundred creatures; every living creature is patched most ticks since its
+// hunger and energy change.
+const BYTES_PER_ENTRY = 320
+const TIMELINE_BUDGET_BYTES = 100 * 1024 * 1024
+export const DEFAULT_MAX_TIMELINE_ENTRIES = Math.floor(TIMELINE_BUDGET_BYTES / BYTES_PER_ENTRY)
+
+// Values equal for patching purposes: primitives by identity, plain objects
+// such as Vector3 one level deep
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false
+  const aRecord = a as Record<string, unknown>
+  const bRecord = b as Record<string, unknown>
+  const keys = Object.keys(aRecord)
+  return keys.length === Object.keys(bRecord).length && keys.every(key => aRecord[key] === bRecord[key])
+}
+
+const diffObject = <T extends object>(prev: T, next: T): Partial<T> | null => {
+  if (prev === next) return null
+  const changes: Partial<T> = {}
+  let changed = false
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]) as Set<keyof T>
+  keys.forEach(key => {
+    if (!sameValue(prev[key], next[key])) {
+      changes[key] = next[key]
+      changed = true
+    }
+  })
+  return changed ? changes : null
+}
+
+// What a creature looks like after a tick in which nothing happened to it:
+// living creatures' idle animation moves on. Deltas only record where the
+// real creature differs from this, and replay starts from it too.
+const predictCreature = (creature: Creature, deltaTime: number): Creature =>
+  creature.isDead ? creature : { ...creature, idleAnimation: advanceIdleAnimation(creature, deltaTime) }
+
+const diffEntities = <T extends { id: string }>(prev: T[], next: T[], predict: (entity: T) => T = entity => entity) => {
+  const prevById = new Map(prev.map(entity => [entity.id, entity]))
+  const nextIds = new Set(next.map(entity => entity.id))
+  const added: T[] = []
+  const patches: EntityPatch<T>[] = []
+
+  next.forEach(entity => {
+    const before = prevById.get(entity.id)
+    if (!before) {
+      added.push(entity)
+      return
+    }
+    const changes = diffObject(predict(before), entity)
+    if (changes) patches.push({ id: entity.id, changes })
+  })
+
+  const removed = prev.filter(entity => !nextIds.has(entity.id)).map(entity => entity.id)
+  return { added, patches, removed }
+}
+
+// Entities are only ever appended, so patching in place and appending
+// additions reproduces the original array order
+const applyEntities = <T extends { id: string }>(
+  entities: T[],
+  added: T[],
+  patches: EntityPatch<T>[],
+  removed: string[],
+  predict: (entity: T) => T = entity => entity
+): T[] => {
+  const changesById = new Map(patches.map(patch => [patch.id, patch.changes]))
+  const removedIds = new Set(removed)
+  const result = entities
+    .filter(entity => !removedIds.has(entity.id))
+    .map(entity => {
+      const predicted = predict(entity)
+      const changes = changesById.get(entity.id)
+      return changes ? { ...predicted, ...changes } : predicted
+    })
+  return added.length > 0 ? [...result, ...added] : result
+}
+
+const statsChanged = (prev: WorldStats, next: WorldStats) =>
+  prev !== next && (prev.births !== next.births || !sameValue(prev.deaths, next.deaths))
+
+export const diffWorlds = (prev: WorldState, next: WorldState): WorldDelta => {
+  const deltaTime = next.gameTime - prev.gameTime
+  const creatures = diffEntities(prev.creatures, next.creatures, creature => predictCreature(creature, deltaTime))
+  const food = diffEntities(prev.food, next.food)
+  return {
+    gameTime: next.gameTime,
+    rngState: next.rngState,
+    nextId: next.nextId,
+    addedCreatures: creatures.added,
+    creaturePatches: creatures.patches,
+    removedCreatureIds: creatures.removed,
+    addedFood: food.added,
+    foodPatches: food.patches,
+    removedFoodIds: food.removed,
+    environment: diffObject(prev.environment, next.environment) ?? undefined,
+    stats: statsChanged(prev.stats, next.stats) ? next.stats : undefined
+  }
+}
+
+export const applyDelta = (world: WorldState, delta: WorldDelta): WorldState => {
+  const deltaTime = delta.gameTime - world.gameTime
+  return {
+    ...world,
+    gameTime: delta.gameTime,
+    rngState: delta.rngState,
+    nextId: delta.nextId,
+    creatures: applyEntities(world.creatures, delta.addedCreatures, delta.creaturePatches, delta.removedCreatureIds,
+      creature => predictCreature(creature, deltaTime)),
+    food: applyEntities(world.food, delta.addedFood, delta.foodPatches, delta.removedFoodIds),
+    environment: delta.environment ? { ...world.environment, ...delta.environment } : world.environment,
+    stats: delta.stats ?? world.stats
+  }
+}
+
+const deltaEntries = (delta: WorldDelta) =>
+  delta.addedCreatures.length + delta.creaturePatches.length + delta.removedCreatureIds.length +
+  delta.addedFood.length + delta.foodPatches.length + delta.removedFoodIds.length + 1
+
+const keyframeEntries = (world: WorldState) => world.creatures.length + world.food.length + 1
+
+export const createTimeline = (
+  world: WorldState,
+  keyframeInterval = DEFAULT_KEYFRAME_INTERVAL,
+  maxEntries = DEFAULT_MAX_TIMELINE_ENTRIES
+): Timeline => {
+  const entries = keyframeEntries(world)
+  return {
+    keyframeInterval,
+    maxEntries,
+    startIndex: 0,
+    segments: [{ keyframe: world, deltas: [], entries }],
+    entries,
+    head: world
+  }
+}
+
+export const timelineEndIndex = (timeline: Timeline): number => {
+  const last = timeline.segments[timeline.segments.length - 1]
+  return timeline.startIndex + (timeline.segments.length - 1) * timeline.keyframeInterval + last.deltas.length
+}
+
+export const timelineStartTime = (timeline: Timeline): number => timeline.segments[0].keyframe.gameTime
+
+export const timelineEndTime = (timeline: Timeline): number => timeline.head.gameTime
+
+// Append the world after a tick
+export const recordFrame = (timeline: Timeline, world: WorldState) => {
+  const last = timeline.segments[timeline.segments.length - 1]
+  if (last.deltas.length + 1 >= timeline.keyframeInterval) {
+    const entries = keyframeEntries(world)
+    timeline.segments.push({ keyframe: world, deltas: [], entries })
+    timeline.entries += entries
+  } else {
+    const delta = diffWorlds(timeline.head, world)
+    const entries = deltaEntries(delta)
+    last.deltas.push(delta)
+    last.entries += entries
+    timeline.entries += entries
+  }
+  timeline.head = world
+
+  // Forget the oldest history once over budget, keeping at least one segment
+  while (timeline.entries > timeline.maxEntries && timeline.segments.length > 1) {
+    const dropped = timeline.segments.shift()!
+    timeline.entries -= dropped.entries
+    timeline.startIndex += timeline.keyframeInterval
+  }
+}
+
+const clampIndex = (timeline: Timeline, index: number) =>
+  Math.max(timeline.startIndex, Math.min(timelineEndIndex(timeline), Math.floor(index)))
+
+// Rebuild the world at a frame from its segment's keyframe
+export const worldAt = (timeline: Timeline, index: number): WorldState => {
+  const offset = clampIndex(timeline, index) - timeline.startIndex
+  const segment = timeline.segments[Math.floor(offset / timeline.keyframeInterval)]
+  return segment.deltas
+    .slice(0, offset % timeline.keyframeInterval)
+    .reduce(applyDelta, segment.keyframe)
+}
+
+// Delta that turns frame index - 1 into frame index, or null for keyframes
+export const deltaAt = (timeline: Timeline, index: number): WorldDelta | null => {
+  const offset = clampIndex(timeline, index) - timeline.startIndex
+  const frame = offset % timeline.keyframeInterval
+  if (frame === 0) return null
+  return timeline.segments[Math.floor(offset / timeline.keyframeInterval)].deltas[frame - 1]
+}
+
+// Step a replayed world forward by one recorded frame
+export const advanceReplay = (timeline: Timeline, world: WorldState, index: number): WorldState => {
+  const delta = deltaAt(timeline, index)
+  if (delta) return applyDelta(world, delta)
+  const offset = clampIndex(timeline, index) - timeline.startIndex
+  return timeline.segments[Math.floor(offset / timeline.keyframeInterval)].keyframe
+}
+
+// Last frame at or before gameTime
+export const frameIndexAt = (timeline: Timeline, gameTime: number): number => {
+  const { segments } = timeline
+  let low = 0
+  let high = segments.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (segments[mid].keyframe.gameTime <= gameTime) low = mid
+    else high = mid - 1
+  }
+  const segment = segments[low]
+  let frame = 0
+  while (frame < segment.deltas.length && segment.deltas[frame].gameTime <= gameTime) frame++
+  return timeline.startIndex + low * timeline.keyframeInterval + frame
+}
+
+// Discard everything recorded after a frame so a new run can branch from it
+export const truncateTimeline = (timeline: Timeline, index: number) => {
+  const offset = clampIndex(timeline, index) - timeline.startIndex
+  const segmentIndex = Math.floor(offset / timeline.keyframeInterval)
+  const segment = timeline.segments[segmentIndex]
+  timeline.segments.length = segmentIndex + 1
+  segment.deltas.length = offset % timeline.keyframeInterval
+  segment.entries = keyframeEntries(segment.keyframe) + segment.deltas.reduce((sum, delta) => sum + deltaEntries(delta), 0)
+  timeline.entries = timeline.segments.reduce((sum, s) => sum + s.entries, 0)
+  timeline.head = worldAt(timeline, timeline.startIndex + offset)
+}
@@ -0,0 +1,144 @@
+// Plain data types shared by the engine, the store and the renderer.
+// Nothing in here may depend on React, Zustand or Three.js.
+
+export interface Vector3 {
+  x: number
+  y: number
+  z: number
+}
+
+export type FoodType = 'tulip' | 'grass' | 'berries' | 'seeds'
+
+export interface Food {
+  id: string
+  position: Vector3
+  type: FoodType
+  isAvailable: boolean
+  nutritionValue: number // Hunger restored by eating it
+  respawnTime: number // Growth needed after being eaten before it can be eaten again
+  lastEaten: number
+  growth: number // Grown back since last eaten; one per unit of game time, faster in the rain
+}
+
+// A static collider in the world that creatures walk around. Trees are the
+// only kind so far; the render fields keep the scenery in step with the
+// simulation.
+export interface Obstacle {
+  id: string
+  kind: 'tree'
+  position: Vector3
+  radius: number // Collider footprint on the ground
+  rotationY: number
+  scale: number
+  variant: number // 0-1, picks which model the renderer draws
+}
+
+export type CreatureType = 'goose' | 'fox'
+
+export type DeathCause = 'starvation' | 'predation' | 'oldAge'
+
+// Heritable traits, passed on by crossover and mutation (see genetics.ts)
+export interface Genome {
+  vision: number
+  speed: number
+  intelligence: number
+  breedingCooldown: number
+  bodySize: number // Adult scale
+  lifespan: number // Game time before health starts failing with old age
+}
+
+export interface Creature {
+  id: string
+  type: CreatureType
+  position: Vector3
+  rotation: Vector3
+  scale: Vector3
+  health: number // 0-100, dies at 0 (see life.ts)
+  energy: number // 0-100, spent moving and regained standing still or resting (see energy.ts)
+  isMoving: boolean
+  isIdle: boolean
+  idleAnimation: number // 0 to 1 for animation cycle
+
+  genome: Genome
+
+  // Lineage
+  parentIds: string[] // Empty for spawned creatures
+  generation: number // 0 for spawned creatures, one more than the older parent's otherwise
+  birthTime: number // Game time the creature was born; spawned creatures arrive as young adults, so theirs is backdated
+
+  // Stats (vision, speed and intelligence are expressed from the genome)
+  vision: number // 0-100, how far they can see
+  hunger: number // 0-100, decreases over time
+  speed: number // 0-100, movement speed
+  intelligence: number // 0-100, affects decision making
+
+  // State machine
+  // Geese: hungry, full, eating, breeding, fleeing, resting
+  // Foxes: prowling, stalking, chasing, eating, full, breeding, resting
+  state: 'hungry' | 'full' | 'searching' | 'eating' | 'breeding' | 'fleeing' | 'prowling' | 'stalking' | 'chasing' | 'resting' | 'dead'
+  targetPosition?: Vector3 // Where they're moving to
+  path?: Vector3[] // Waypoints around obstacles, ending at targetPosition (see navigation.ts)
+  targetFoodId?: string // ID of food they're targeting
+  targetPreyId?: string // ID of the goose a fox is hunting
+  lastStateChange: number // Game time when state last changed
+
+  // Breeding tracking
+  lastBreedingTime: number // Game time when last bred
+  breedingCooldown: number // Cooldown period in milliseconds
+  mateId?: string // Partner while breeding
+
+  // Death tracking
+  isDead: boolean // Whether the creature is dead
+  deathCause?: DeathCause
+  deathTime?: number // Game time of death
+
+  mealsEaten: number // Food items eaten, or prey caught by hunters
+}
+
+export interface Environment {
+  temperature: number
+  humidity: number
+  lightLevel: number
+  timeOfDay: 'morning' | 'afternoon' | 'evening' | 'night'
+  weather: 'sunny' | 'cloudy' | 'rainy' | 'foggy'
+  season: 'spring' | 'summer' | 'autumn' | 'winter'
+}
+
+// Running totals over the life of the world
+export interface WorldStats {
+  births: number
+  deaths: Record<DeathCause, number>
+}
+
+// Everything needed to advance the simulation. Two equal WorldStates always
+// step to equal WorldStates.
+export interface WorldState {
+  creatures: Creature[]
+  food: Food[]
+  obstacles: Obstacle[] // Generated from the seed; never change during a run
+  environment: Environment
+  gameTime: number
+  stats: WorldStats
+  seed: number // Seed the world was generated from
+  rngState: number // Current position in the seeded random stream
+  nextId: number // Count the next new entity's ID is made from (see createIdCounter)
+}
+
+// Notable things that happened during a step, reported instead of logged so
+// the engine stays free of side effects
+export type SimulationEvent =
+  | { type: 'died'; time: number; creatureId: string; cause: DeathCause }
+  | { type: 'caught'; time: number; creatureId: string; preyId: string }
+  | { type: 'injured'; time: number; creatureId: string; attackerId: string; health: number }
+  | { type: 'ate'; time: number; creatureId: string; foodId: string; hunger: number }
+  | { type: 'stateChanged'; time: number; creatureId: string; from: Creature['state']; to: Creature['state'] }
+  | { type: 'breedingStarted'; time: number; creatureId: string; partnerId: string }
+  | { type: 'born'; time: number; creatureId: string; parentIds: string[] }
+  | { type: 'foodSpawned'; time: number; foodId: string; position: Vector3 }
+  | { type: 'foodRespawned'; time: number; foodId: string }
+  | { type: 'weatherChanged'; time: number; from: Environment['weather']; to: Environment['weather'] }
+
+export interface StepResult {
+  world: WorldState
+  events: SimulationEvent[]
+}
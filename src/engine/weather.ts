@@ -0,0 +1,109 @@
+import { Rng } from '../utils/random'
+import { Creature, Environment, SimulationEvent } from './types'
+import { SEASON_GROWTH } from './foods'
+
+// Weather: a Markov chain over the four kinds of weather, stepped a few
+// times a day with odds that depend on the season, plus temperature and
+// humidity that drift towards what the season, time of day and weather
+// call for. The weather feeds back into the simulation: rain makes eaten
+// plants grow back faster, cold makes creatures hungrier and fog shortens
+// how far they see.
+
+export type Weather = Environment['weather']
+export type Season = Environment['season']
+export type TimeOfDay = Environment['timeOfDay']
+
+const WEATHERS: Weather[] = ['sunny', 'cloudy', 'rainy', 'foggy']
+
+// Game time between chances for the weather to change (a day is 4000)
+export const WEATHER_STEP = 500
+
+// Odds of tomorrow's weather given today's, before the season weighs in.
+// Weather tends to stay as it is, and rain usually clears through cloud.
+const TRANSITIONS: Record<Weather, Record<Weather, number>> = {
+  sunny: { sunny: 0.75, cloudy: 0.2, rainy: 0.02, foggy: 0.03 },
+  cloudy: { sunny: 0.25, cloudy: 0.5, rainy: 0.18, foggy: 0.07 },
+  rainy: { sunny: 0.05, cloudy: 0.35, rainy: 0.55, foggy: 0.05 },
+  foggy: { sunny: 0.3, cloudy: 0.2, rainy: 0.05, foggy: 0.45 }
+}
+
+// How much more or less likely each kind of weather is in each season
+const SEASON_WEATHER: Record<Season, Record<Weather, number>> = {
+  spring: { sunny: 1, cloudy: 1, rainy: 1.3, foggy: 0.8 },
+  summer: { sunny: 1.5, cloudy: 0.8, rainy: 0.6, foggy: 0.5 },
+  autumn: { sunny: 0.8, cloudy: 1.2, rainy: 1.3, foggy: 1.5 },
+  winter: { sunny: 0.8, cloudy: 1.3, rainy: 0.8, foggy: 1.5 }
+}
+
+// Temperature (°C) and humidity (%) are the season's, shifted by the time of
+// day and the weather
+const SEASON_TEMPERATURE: Record<Season, number> = { spring: 14, summer: 24, autumn: 12, winter: 2 }
+const TIME_TEMPERATURE: Record<TimeOfDay, number> = { morning: -2, afternoon: 4, evening: 0, night: -5 }
+const WEATHER_TEMPERATURE: Record<Weather, number> = { sunny: 2, cloudy: 0, rainy: -3, foggy: -2 }
+
+const SEASON_HUMIDITY: Record<Season, number> = { spring: 65, summer: 50, autumn: 75, winter: 70 }
+const TIME_HUMIDITY: Record<TimeOfDay, number> = { morning: 10, afternoon: -10, evening: 0, night: 10 }
+const WEATHER_HUMIDITY: Record<Weather, number> = { sunny: -10, cloudy: 0, rainy: 25, foggy: 20 }
+
+// Temperature and humidity close this fraction of the gap to their target
+// per unit of game time, so they change gradually rather than jumping
+const DRIFT_RATE = 1 / 600
+
+// Daylight let through by each kind of weather
+const WEATHER_LIGHT: Record<Weather, number> = { sunny: 1, cloudy: 0.8, rainy: 0.6, foggy: 0.7 }
+
+// Effects on the simulation
+const RAIN_REGROWTH = 2 // Eaten plants grow back this many times faster in the rain
+const COLD_BELOW = 10 // °C; below this hunger drains faster...
+const COLD_HUNGER_PER_DEGREE = 0.05 // ...by this fraction per degree
+const FOG_VISION = 0.5 // Fraction of vision left in fog
+
+// Pick the next weather from the chain
+const nextWeather = (weather: Weather, season: Season, rng: Rng): Weather => {
+  const weights = WEATHERS.map(to => TRANSITIONS[weather][to] * SEASON_WEATHER[season][to])
+  let pick = rng.next() * weights.reduce((sum, weight) => sum + weight, 0)
+  for (let i = 0; i < WEATHERS.length; i++) {
+    pick -= weights[i]
+    if (pick < 0) return WEATHERS[i]
+  }
+  return weather
+}
+
+// Advance the weather over one tick starting at now. The weather only changes
+// at WEATHER_STEP boundaries; temperature and humidity drift every tick.
+export const updateWeather = (environment: Environment, now: number, deltaTime: number, rng: Rng, events: SimulationEvent[]): Environment => {
+  let { weather } = environment
+  if (Math.floor((now + deltaTime) / WEATHER_STEP) > Math.floor(now / WEATHER_STEP)) {
+    weather = nextWeather(environment.weather, environment.season, rng)
+    if (weather !== environment.weather) {
+      events.push({ type: 'weatherChanged', time: now, from: environment.weather, to: weather })
+    }
+  }
+
+  const { season, timeOfDay } = environment
+  const drift = Math.min(1, deltaTime * DRIFT_RATE)
+  const temperature = SEASON_TEMPERATURE[season] + TIME_TEMPERATURE[timeOfDay] + WEATHER_TEMPERATURE[weather]
+  const humidity = Math.max(0, Math.min(100, SEASON_HUMIDITY[season] + TIME_HUMIDITY[timeOfDay] + WEATHER_HUMIDITY[weather]))
+  return {
+    ...environment,
+    weather,
+    temperature: environment.temperature + (temperature - environment.temperature) * drift,
+    humidity: environment.humidity + (humidity - environment.humidity) * drift
+  }
+}
+
+// Share of daylight that gets through the weather
+export const weatherLight = (environment: Environment) => WEATHER_LIGHT[environment.weather]
+
+// How fast eaten plants grow back, per unit of game time: by season, and
+// faster in the rain
+export const regrowthRate = (environment: Environment) =>
+  SEASON_GROWTH[environment.season] * (environment.weather === 'rainy' ? RAIN_REGROWTH : 1)
+
+// Multiplier on hunger decay from the cold
+export const coldHungerFactor = (environment: Environment) =>
+  1 + Math.max(0, COLD_BELOW - environment.temperature) * COLD_HUNGER_PER_DEGREE
+
+// A creature's vision as cut by the weather
+export const effectiveVision = (creature: Creature, environment: Environment) =>
+  environment.weather === 'foggy' ? creature.vision * FOG_VISION : creature.vision
@@ -0,0 +1,147 @@
+import { createRng, deriveSeed, Rng } from '../utils/random'
+import { Creature, CreatureType, Food, Vector3, WorldState } from './types'
+import { StatRange, getSpecies, isHunter } from './species'
+import { expressGenome, randomGenome } from './genetics'
+import { FOODS, createFood, randomFoodType, randomPositionIn } from './foods'
+import { insideObstacle, navGridFor } from './navigation'
+import { DEFAULT_WORLD_GEN, WorldGenOptions, generateLayout } from './worldgen'
+
+// World construction and editing. Every function takes a WorldState and
+// returns a new one; random draws advance world.rngState and new IDs
+// world.nextId.
+
+// Hands out entity IDs: a count in base 36, so IDs never repeat within a
+// world and come out the same every time it is replayed from its seed
+export interface IdCounter {
+  next: () => string
+  getState: () => number // The count the next ID will use
+}
+
+export const createIdCounter = (state: number): IdCounter => {
+  let n = state
+  return {
+    next: () => (n++).toString(36),
+    getState: () => n
+  }
+}
+
+const getRandomPosition = (rng: Rng): Vector3 => ({
+  x: (rng.next() - 0.5) * 20,
+  y: 0,
+  z: (rng.next() - 0.5) * 20
+})
+
+// A new world with its starting layout generated from the seed
+export const createWorld = (seed: number, options: WorldGenOptions = DEFAULT_WORLD_GEN): WorldState => ({
+  creatures: [],
+  ...generateLayout(seed, options),
+  environment: {
+    temperature: 22,
+    humidity: 60,
+    lightLevel: 80,
+    timeOfDay: 'morning',
+    weather: 'sunny',
+    season: 'spring',
+  },
+  gameTime: 0,
+  stats: { births: 0, deaths: { starvation: 0, predation: 0, oldAge: 0 } },
+  seed,
+  rngState: deriveSeed(seed, 'simulation')
+})
+
+// Run fn with a generator positioned at the world's random stream and a
+// counter at its next ID, and store both back on the result
+export const withRng = (world: WorldState, fn: (rng: Rng, ids: IdCounter) => WorldState): WorldState => {
+  const rng = createRng(world.rngState)
+  const ids = createIdCounter(world.nextId)
+  const next = fn(rng, ids)
+  return { ...next, rngState: rng.getState(), nextId: ids.getState() }
+}
+
+export const addCreature = (world: WorldState, creature: Omit<Creature, 'id'>): WorldState =>
+  withRng(world, (_rng, ids) => ({
+    ...world,
+    creatures: [...world.creatures, { ...creature, id: ids.next() }]
+  }))
+
+export const addFood = (world: WorldState, food: Omit<Food, 'id'>): WorldState =>
+  withRng(world, (_rng, ids) => ({
+    ...world,
+    food: [...world.food, { ...food, id: ids.next() }]
+  }))
+
+const randomIn = (rng: Rng, [min, max]: StatRange) => min + rng.next() * (max - min)
+
+// Spawn one creature of the given species with a random genome drawn from
+// its ranges
+export const spawnCreature = (world: WorldState, type: CreatureType = 'goose'): WorldState => withRng(world, (rng, ids) => {
+  const species = getSpecies(type)
+  const hunter = isHunter(species)
+  const initialState = (hunger: number) => hunter ? 'prowling' : hunger > 50 ? 'full' : 'hungry' // State depends on hunger
+
+  // Foragers gather near the middle; hunters start anywhere in the arena
+  const position = hunter
+    ? { x: (rng.next() - 0.5) * 80, y: 0, z: (rng.next() - 0.5) * 80 }
+    : getRandomPosition(rng)
+  const initialHunger = randomIn(rng, species.initialHunger)
+  const genome = randomGenome(species.genetics, rng)
+
+  const creature: Creature = {
+    id: ids.next(),
+    type,
+    genome,
+    ...expressGenome(genome),
+    parentIds: [],
+    generation: 0,
+    birthTime: world.gameTime - species.life.maturityAge, // Arrives just grown up
+    position,
+    rotation: { x: 0, y: 0, z: 0 },
+    health: 100,
+    energy: 100,
+    isMoving: false,
+    isIdle: true,
+    idleAnimation: 0,
+    hunger: initialHunger,
+    state: initialState(initialHunger),
+    lastStateChange: world.gameTime,
+    lastBreedingTime: 0, // Never bred before
+    isDead: false,
+    mealsEaten: 0
+  }
+  const creatures = [...world.creatures, creature]
+
+  // Spawn a second creature nearby to increase breeding chances
+  const sameSpecies = world.creatures.filter(c => c.type === type).length
+  if (species.breeding.enabled && sameSpecies === 1) { // Only when exactly one of its species exists so far
+    const hunger = randomIn(rng, species.initialHunger)
+    const mateGenome = randomGenome(species.genetics, rng)
+    creatures.push({
+      ...creature,
+      id: ids.next(),
+      genome: mateGenome,
+      ...expressGenome(mateGenome),
+      position: {
+        x: creature.position.x + (rng.next() - 0.5) * 4, // Spawn nearby
+        y: creature.position.y,
+        z: creature.position.z + (rng.next() - 0.5) * 4
+      },
+      hunger,
+      state: initialState(hunger)
+    })
+  }
+
+  return { ...world, creatures }
+})
+
+// Scatter count new food items, each of a random type somewhere in the biome
+// it grows in. Spots inside trees are skipped.
+export const scatterFood = (world: WorldState, count: number): WorldState => withRng(world, (rng, ids) => {
+  const grid = navGridFor(world.obstacles)
+  const food = [...world.food]
+  for (let i = 0; i < count; i++) {
+    const type = randomFoodType(rng)
+    const position = randomPositionIn(FOODS[type].biome, rng)
+    if (!insideObstacle(grid, position.x, position.z)) food.push({ id: ids.next(), ...createFood(type, position) })
+  }
+  return { ...world, food }
+})
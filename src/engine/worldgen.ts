@@ -0,0 +1,82 @@
+import { createRng, deriveSeed } from '../utils/random'
+import { Food, FoodType, Obstacle, Vector3 } from './types'
+import { FOODS, createFood, randomPositionIn } from './foods'
+import { TREE_COUNT, generateObstacles } from './obstacles'
+import { insideObstacle, navGridFor } from './navigation'
+import { createIdCounter } from './world'
+
+// World generation: the starting layout, made once from the seed and these
+// options when a world is created. Trees, tulips and the rest of the food are
+// all entities in the world state, so what the renderer draws is exactly
+// what creatures walk around and eat.
+
+export interface WorldGenOptions {
+  trees: number
+  flowerPatches: number // Clusters of tulips in the meadow
+  tulipsPerPatch: number
+  grass: number // Grass tufts in the meadow
+  berryBushes: number // In the woods
+  seeds: number // Anywhere
+}
+
+export const DEFAULT_WORLD_GEN: WorldGenOptions = {
+  trees: TREE_COUNT,
+  flowerPatches: 6,
+  tulipsPerPatch: 8,
+  grass: 16,
+  berryBushes: 8,
+  seeds: 10
+}
+
+// Tulips in a patch grow within this distance of its centre
+const PATCH_RADIUS = 2.5
+
+// Attempts at finding a spot clear of the trees before an item is left out
+const PLACEMENT_ATTEMPTS = 10
+
+export interface WorldLayout {
+  obstacles: Obstacle[]
+  food: Food[]
+  nextId: number // Trees and food are numbered from 0 up
+}
+
+export const generateLayout = (seed: number, options: WorldGenOptions = DEFAULT_WORLD_GEN): WorldLayout => {
+  const ids = createIdCounter(0)
+  const obstacles = generateObstacles(seed, options.trees, ids)
+  const grid = navGridFor(obstacles)
+  const rng = createRng(deriveSeed(seed, 'layout'))
+  const food: Food[] = []
+
+  // Add one food item at the first picked spot that isn't inside a tree
+  const place = (type: FoodType, pick: () => Vector3) => {
+    for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+      const position = pick()
+      if (!insideObstacle(grid, position.x, position.z)) {
+        food.push({ id: ids.next(), ...createFood(type, position) })
+        return
+      }
+    }
+  }
+
+  // Tulips come in patches, spread evenly over a disc around each centre
+  for (let patch = 0; patch < options.flowerPatches; patch++) {
+    const centre = randomPositionIn('meadow', rng)
+    for (let i = 0; i < options.tulipsPerPatch; i++) {
+      place('tulip', () => {
+        const angle = rng.next() * Math.PI * 2
+        const distance = Math.sqrt(rng.next()) * PATCH_RADIUS
+        return { x: centre.x + Math.cos(angle) * distance, y: 0, z: centre.z + Math.sin(angle) * distance }
+      })
+    }
+  }
+
+  // Everything else is scattered over the biome it grows in
+  const scatter = (type: FoodType, count: number) => {
+    for (let i = 0; i < count; i++) place(type, () => randomPositionIn(FOODS[type].biome, rng))
+  }
+  scatter('grass', options.grass)
+  scatter('berries', options.berryBushes)
+  scatter('seeds', options.seeds)
+
+  return { obstacles, food, nextId: ids.getState() }
+}
@@ -1,9 +1,22 @@
-import React, { createContext, useContext, useEffect, useRef } from 'react'
+import React, { createContext, useContext, useEffect } from 'react'
 import { useSimulationStore } from './simulationStore'
 
 // Re-export useSimulationStore for convenience
 export { useSimulationStore }
 
+// Fixed ticks per real second at x1 speed. Together with TICK_DELTA this
+// defines how much game time passes per second, independent of frame rate.
+export const TICKS_PER_SECOND = 60
+
+// Longest frame we try to catch up on, so a backgrounded tab doesn't return
+// to thousands of queued ticks
+const MAX_FRAME_SECONDS = 0.25
+
+// Most ticks one frame runs, per x1 of speed. A machine that can't keep up
+// runs the simulation slower instead of queueing more and more work for each
+// frame.
+const MAX_TICKS_PER_FRAME = 8
+
 interface SimulationContextType {
   // Add any additional context values here if needed
 }
@@ -23,29 +36,38 @@ interface SimulationProviderProps {
 }
 
 export const SimulationProvider: React.FC<SimulationProviderProps> = ({ children }) => {
-  const simulate = useSimulationStore(state => state.simulate)
-  const isPaused = useSimulationStore(state => state.isPaused)
-  const speed = useSimulationStore(state => state.speed)
-  const animationRef = useRef<number>()
-
+  // The single game loop: accumulate scaled real time and spend it in fixed
+  // ticks, so x1 means the same simulated time per second on every machine
   useEffect(() => {
-    const animate = () => {
-      if (!isPaused) {
-        simulate()
-      }
-      animationRef.current = requestAnimationFrame(animate)
-    }
+    let frame = 0
+    let lastTime = performance.now()
+    let accumulator = 0 // Fractional ticks carried over between frames
 
-    animationRef.current = requestAnimationFrame(animate)
+    const animate = (now: number) => {
+      const elapsed = Math.min((now - lastTime) / 1000, MAX_FRAME_SECONDS)
+      lastTime = now
 
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current)
+      const { isPaused, speed, step } = useSimulationStore.getState()
+      if (isPaused) {
+        accumulator = 0
+      } else {
+        accumulator += elapsed * speed * TICKS_PER_SECOND
+        const maxTicks = MAX_TICKS_PER_FRAME * speed
+        const ticks = Math.min(Math.floor(accumulator), maxTicks)
+        if (ticks > 0) {
+          // Time beyond the cap is dropped, not carried into the next frame
+          accumulator = ticks === maxTicks ? 0 : accumulator - ticks
+          step(ticks)
+        }
       }
+
+      frame = requestAnimationFrame(animate)
     }
-  }, [simulate, isPaused, speed])
 
+    frame = requestAnimationFrame(animate)
 
+    return () => cancelAnimationFrame(frame)
+  }, [])
 
   return (
     <SimulationContext.Provider value={{}}>
@@ -0,0 +1,90 @@
+import { RunExport, WorldSnapshot, parseSnapshot, serializeSnapshot, toCsv } from '../engine'
+
+// Browser-side persistence for world snapshots: localStorage slots and
+// JSON file download/upload. Also downloads run exports for analysis.
+
+const SLOT_PREFIX = 'webgeese:save:'
+export const AUTOSAVE_SLOTS = ['autosave-1', 'autosave-2', 'autosave-3']
+
+export interface SaveSlotInfo {
+  slot: string
+  savedAt: string
+  gameTime: number
+  seed: number
+  population: number
+}
+
+export const writeSlot = (slot: string, snapshot: WorldSnapshot) => {
+  try {
+    localStorage.setItem(SLOT_PREFIX + slot, serializeSnapshot(snapshot))
+  } catch (error) {
+    // Quota exceeded or storage disabled; saving is best effort
+    console.error(`Failed to save slot ${slot}:`, error)
+  }
+}
+
+export const readSlot = (slot: string): WorldSnapshot | null => {
+  const json = localStorage.getItem(SLOT_PREFIX + slot)
+  return json ? parseSnapshot(json) : null
+}
+
+export const listSlots = (): SaveSlotInfo[] => {
+  const slots: SaveSlotInfo[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key?.startsWith(SLOT_PREFIX)) continue
+    const slot = key.slice(SLOT_PREFIX.length)
+    try {
+      const snapshot = readSlot(slot)
+      if (!snapshot) continue
+      slots.push({
+        slot,
+        savedAt: snapshot.savedAt,
+        gameTime: snapshot.world.gameTime,
+        seed: snapshot.world.seed,
+        population: snapshot.world.creatures.filter(c => !c.isDead).length
+      })
+    } catch (error) {
+      console.error(`Skipping unreadable save slot ${slot}:`, error)
+    }
+  }
+  return slots.sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+}
+
+// Overwrite the oldest autosave slot
+export const nextAutosaveSlot = (): string => {
+  const saved = listSlots().filter(info => AUTOSAVE_SLOTS.includes(info.slot))
+  const empty = AUTOSAVE_SLOTS.find(slot => !saved.some(info => info.slot === slot))
+  return empty ?? saved[saved.length - 1].slot
+}
+
+const downloadFile = (filename: string, contents: string, type: string) => {
+  const blob = new Blob([contents], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const downloadSnapshot = (snapshot: WorldSnapshot) =>
+  downloadFile(
+    `webgeese-${snapshot.world.seed}-t${Math.round(snapshot.world.gameTime)}.json`,
+    serializeSnapshot(snapshot),
+    'application/json'
+  )
+
+// JSON is one file; CSV is two, one per table
+export const downloadRunExport = (run: RunExport, format: 'json' | 'csv') => {
+  const name = `webgeese-${run.seed}-t${Math.round(run.gameTime)}`
+  if (format === 'json') {
+    downloadFile(`${name}-run.json`, JSON.stringify(run), 'application/json')
+    return
+  }
+  downloadFile(`${name}-metrics.csv`, toCsv(run.metrics), 'text/csv')
+  downloadFile(`${name}-creatures.csv`, toCsv(run.creatures), 'text/csv')
+}
+
+export const readSnapshotFile = async (file: File): Promise<WorldSnapshot> =>
+  parseSnapshot(await file.text())
@@ -1,715 +1,317 @@
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
+import {
+  Creature,
+  CreatureType,
+  Food,
+  Environment,
+  MetricsHistory,
+  MetricsSample,
+  RunExport,
+  Timeline,
+  WorldGenOptions,
+  WorldState,
+  WorldSnapshot,
+  addCreature,
+  addFood,
+  advanceReplay,
+  createSnapshot,
+  createMetricsHistory,
+  createTimeline,
+  createWorld,
+  exportRun,
+  frameIndexAt,
+  scatterFood,
+  recordFrame,
+  recordSample,
+  sampleWorld,
+  spawnCreature,
+  stepWorld,
+  timelineEndIndex,
+  timelineStartTime,
+  truncateHistory,
+  truncateTimeline,
+  worldAt,
+  DEFAULT_WORLD_GEN,
+  TICK_DELTA
+} from '../engine'
+import { randomSeed } from '../utils/random'
 
-export interface Vector3 {
-  x: number
-  y: number
-  z: number
-}
-
-export interface Food {
-  id: string
-  position: Vector3
-  type: 'tulip'
-  isAvailable: boolean
-  nutritionValue: number
-  respawnTime: number
-  lastEaten: number
-}
+// Re-export the engine's data types so components keep importing from here
+export type { Vector3, Food, Creature, CreatureType, DeathCause, Environment, WorldState } from '../engine'
 
-export interface Creature {
-  id: string
-  type: 'goose'
-  position: Vector3
-  rotation: Vector3
-  scale: Vector3
-  health: number
-  energy: number
-  isMoving: boolean
-  isIdle: boolean
-  idleAnimation: number // 0 to 1 for animation cycle
-  
-  // Stats
-  vision: number // 0-100, how far they can see
-  hunger: number // 0-100, decreases over time
-  speed: number // 0-100, movement speed
-  intelligence: number // 0-100, affects decision making
-  
-  // State machine
-  state: 'hungry' | 'full' | 'searching' | 'eating' | 'breeding' | 'dead'
-  targetPosition?: Vector3 // Where they're moving to
-  targetFoodId?: string // ID of food they're targeting
-  lastStateChange: number // Game time when state last changed
-  
-  // Breeding tracking
-  lastBreedingTime: number // Game time when last bred
-  breedingCooldown: number // Cooldown period in milliseconds
-  
-  // Death tracking
-  isDead: boolean // Whether the creature is dead
-}
-
-export interface Environment {
-  temperature: number
-  humidity: number
-  lightLevel: number
-  timeOfDay: 'morning' | 'afternoon' | 'evening' | 'night'
-  weather: 'sunny' | 'cloudy' | 'rainy' | 'foggy'
-  season: 'spring' | 'summer' | 'autumn' | 'winter'
-}
-
-export interface SimulationState {
+export interface SimulationState extends WorldState {
   // Core state
-  creatures: Creature[]
-  food: Food[]
-  environment: Environment
-  gameTime: number
   isPaused: boolean
   speed: number
-  
+  nextSeed: number // Seed the next reset() will use
+  worldGen: WorldGenOptions // Layout options the next reset() will use
+
   // UI state
   selectedEntity: string | null
-  
+
+  // Recording and replay
+  timelineStart: number // gameTime of the oldest recorded frame
+  timelineEnd: number // gameTime of the newest recorded frame
+  replayIndex: number | null // Recorded frame being shown, or null when live
+
+  // Analytics
+  metricsInterval: number // Ticks between samples
+  metrics: MetricsSample[] // Oldest first, the latest MAX_METRICS_SAMPLES for charts; exports cover the whole run
+
   // Actions
   addCreature: (creature: Omit<Creature, 'id'>) => void
   removeCreature: (id: string) => void
   updateCreature: (id: string, updates: Partial<Creature>) => void
-  
+
   addFood: (food: Omit<Food, 'id'>) => void
   removeFood: (id: string) => void
   updateFood: (id: string, updates: Partial<Food>) => void
-  
+
   updateEnvironment: (updates: Partial<Environment>) => void
   advanceTime: (deltaTime: number) => void
   togglePause: () => void
   setSpeed: (speed: number) => void
+  setSeed: (seed: number) => void
+  setWorldGen: (updates: Partial<WorldGenOptions>) => void
   reset: () => void
-  
+
   setSelectedEntity: (id: string | null) => void
-  
+
+  scrubTo: (gameTime: number) => void // Enter replay at the last frame at or before gameTime
+  branchFromReplay: () => void // Discard the recording after the replayed frame and run live from it
+  exitReplay: () => void // Jump back to the newest recorded frame and run live
+
+  setMetricsInterval: (ticks: number) => void
+  exportRun: () => RunExport // The whole run's sampled metrics and a record of every creature, for analysis
+
+  // Persistence
+  exportSnapshot: () => WorldSnapshot
+  loadSnapshot: (snapshot: WorldSnapshot) => void
+
   // Simulation
-  simulate: () => void
-  
+  step: (ticks?: number) => void // Advance a whole number of fixed ticks, paused or not
+
   // Debug/Testing
-  spawnCreature: () => void
-  initializeFood: () => void
+  spawnCreature: (type?: CreatureType) => void
+  scatterFood: (count: number) => void
 }
 
-const generateId = () => Math.random().toString(36).substr(2, 9)
-
-const getRandomPosition = (): Vector3 => ({
-  x: (Math.random() - 0.5) * 20,
-  y: 0,
-  z: (Math.random() - 0.5) * 20
+// Pull the engine's view of the world out of the store
+export const selectWorld = (state: SimulationState): WorldState => ({
+  creatures: state.creatures,
+  food: state.food,
+  obstacles: state.obstacles,
+  environment: state.environment,
+  gameTime: state.gameTime,
+  stats: state.stats,
+  seed: state.seed,
+  rngState: state.rngState,
+  nextId: state.nextId
 })
 
+// Charts show this many samples; older ones are only kept for export
+export const MAX_METRICS_SAMPLES = 600
+export const DEFAULT_METRICS_INTERVAL = 60 // One sample per second at x1
+
+const initialSeed = randomSeed()
+const initialWorld = createWorld(initialSeed)
+
 const initialState = {
-  creatures: [],
-  food: [],
-  environment: {
-    temperature: 22,
-    humidity: 60,
-    lightLevel: 80,
-    timeOfDay: 'morning' as const,
-    weather: 'sunny' as const,
-    season: 'spring' as const,
-  },
-  gameTime: 0,
+  ...initialWorld,
   isPaused: false,
   speed: 1,
+  nextSeed: initialSeed,
+  worldGen: DEFAULT_WORLD_GEN,
   selectedEntity: null,
+  timelineStart: 0,
+  timelineEnd: 0,
+  replayIndex: null,
+  metricsInterval: DEFAULT_METRICS_INTERVAL,
+  metrics: [sampleWorld(initialWorld)],
+}
+
+// The recording of the current run. It can hold hundreds of thousands of
+// entries, so it lives outside the store state (and out of devtools).
+let timeline: Timeline = createTimeline(initialWorld)
+
+export const getTimeline = () => timeline
+
+const startTimeline = (world: WorldState) => {
+  timeline = createTimeline(world)
+  return { timelineStart: world.gameTime, timelineEnd: world.gameTime, replayIndex: null }
+}
+
+// Every sample of the current run, for export, thinned as the run grows.
+// Kept outside the store state for the same reason as the timeline.
+let metricsHistory: MetricsHistory = createMetricsHistory(initialState.metrics[0])
+
+const startMetrics = (world: WorldState) => {
+  const first = sampleWorld(world)
+  metricsHistory = createMetricsHistory(first)
+  return { metrics: [first] }
 }
 
 export const useSimulationStore = create<SimulationState>()(
   devtools(
     (set, get) => ({
       ...initialState,
-      
 
-      
-      addCreature: (creature) => set((state) => ({
-        creatures: [...state.creatures, { ...creature, id: generateId() }]
-      })),
-      
-      removeCreature: (id) => set((state) => ({
-        creatures: state.creatures.filter(c => c.id !== id)
-      })),
-      
-      updateCreature: (id, updates) => set((state) => ({
-        creatures: state.creatures.map(c => c.id === id ? { ...c, ...updates } : c)
-      })),
-      
-      addFood: (food) => set((state) => ({
-        food: [...state.food, { ...food, id: generateId() }]
-      })),
-      
-      removeFood: (id) => set((state) => ({
-        food: state.food.filter(f => f.id !== id)
-      })),
-      
-      updateFood: (id, updates) => set((state) => ({
-        food: state.food.map(f => f.id === id ? { ...f, ...updates } : f)
-      })),
-      
-      updateEnvironment: (updates) => set((state) => ({
-        environment: { ...state.environment, ...updates }
-      })),
-      
-      advanceTime: (deltaTime) => set((state) => ({
-        gameTime: state.gameTime + deltaTime
-      })),
-      
+      // World edits go through the engine so ids come from the world's counter.
+      // Editing while replaying branches a new run from the replayed frame.
+      addCreature: (creature) => {
+        get().branchFromReplay()
+        set((state) => addCreature(selectWorld(state), creature))
+      },
+
+      removeCreature: (id) => {
+        get().branchFromReplay()
+        set((state) => ({
+          creatures: state.creatures.filter(c => c.id !== id)
+        }))
+      },
+
+      updateCreature: (id, updates) => {
+        get().branchFromReplay()
+        set((state) => ({
+          creatures: state.creatures.map(c => c.id === id ? { ...c, ...updates } : c)
+        }))
+      },
+
+      addFood: (food) => {
+        get().branchFromReplay()
+        set((state) => addFood(selectWorld(state), food))
+      },
+
+      removeFood: (id) => {
+        get().branchFromReplay()
+        set((state) => ({
+          food: state.food.filter(f => f.id !== id)
+        }))
+      },
+
+      updateFood: (id, updates) => {
+        get().branchFromReplay()
+        set((state) => ({
+          food: state.food.map(f => f.id === id ? { ...f, ...updates } : f)
+        }))
+      },
+
+      updateEnvironment: (updates) => {
+        get().branchFromReplay()
+        set((state) => ({
+          environment: { ...state.environment, ...updates }
+        }))
+      },
+
+      advanceTime: (deltaTime) => {
+        get().branchFromReplay()
+        set((state) => ({
+          gameTime: state.gameTime + deltaTime
+        }))
+      },
+
       togglePause: () => set((state) => ({
         isPaused: !state.isPaused
       })),
-      
+
       setSpeed: (speed) => set({ speed }),
-      
-      reset: () => set(initialState),
-      
+
+      setSeed: (seed) => set({ nextSeed: seed >>> 0 }),
+
+      setWorldGen: (updates) => set((state) => ({ worldGen: { ...state.worldGen, ...updates } })),
+
+      reset: () => {
+        const { nextSeed: seed, worldGen } = get()
+        const world = createWorld(seed, worldGen)
+        set({ ...initialState, ...world, ...startTimeline(world), ...startMetrics(world), nextSeed: seed, worldGen })
+      },
+
       setSelectedEntity: (id) => set({ selectedEntity: id }),
-      
-      simulate: () => {
-        const state = get()
-        if (state.isPaused) return
-        
-        const deltaTime = 1 * state.speed
-        
-        // Update game time
-        get().advanceTime(deltaTime)
-        
-
-        
-        // Simulate creatures
-        state.creatures.forEach(creature => {
-          // Skip dead creatures
-          if (creature.isDead) return
-          
-          // Update idle animation
-          const newIdleAnimation = (creature.idleAnimation + deltaTime * 0.1) % 1
-          
-          // State machine logic
-          let newState = creature.state
-          let newHunger = creature.hunger
-          let newTargetPosition = creature.targetPosition
-          let isMoving = creature.isMoving
-          let newPosition = { ...creature.position }
-          
-          // Decrease hunger over time only when not eating or breeding
-          if (creature.state !== 'eating' && creature.state !== 'breeding') {
-            const hungerDecrease = deltaTime * 0.01 // Hunger decreases by 0.01 per time unit
-            newHunger = Math.max(0, creature.hunger - hungerDecrease)
-            
-            // Check for immediate death when hunger reaches 0
-            if (newHunger === 0 && creature.hunger > 0) {
-              // Hunger just reached 0, kill the creature immediately
-              get().updateCreature(creature.id, {
-                isDead: true,
-                state: 'dead',
-                lastStateChange: state.gameTime
-              })
-              console.log(`Goose ${creature.id} died immediately from starvation (hunger = 0)`)
-              return // Skip further processing for this creature
-            }
-          }
-          
-          // State transitions based on hunger - make them completely dependent
-          if (newHunger > 50 && creature.state === 'hungry') {
-            newState = 'full'
-            get().updateCreature(creature.id, { lastStateChange: state.gameTime })
-            console.log(`Creature ${creature.id} transitioned to FULL state, hunger: ${newHunger}`)
-          } else if (newHunger <= 50 && creature.state === 'full') {
-            newState = 'hungry'
-            get().updateCreature(creature.id, { lastStateChange: state.gameTime })
-            console.log(`Creature ${creature.id} transitioned to HUNGRY state, hunger: ${newHunger}`)
-          }
-          
-                    // Behavior based on state
-          if (newState === 'hungry') {
-            // Only look for food if hunger is below random threshold (70-100)
-            const stopEatingThreshold = 70 + Math.random() * 30 // Random threshold between 70-100
-            if (creature.hunger < stopEatingThreshold) {
-              // Look for available food within 5x5 area multiplied by vision stat
-              const availableFood = state.food.filter(f => f.isAvailable)
-              const visionRange = 5 * (creature.vision / 100) // 5x5 area scaled by vision (0-5 units)
-              
-              const nearbyFood = availableFood.filter(food => {
-                const dx = Math.abs(food.position.x - creature.position.x)
-                const dz = Math.abs(food.position.z - creature.position.z)
-                return dx <= visionRange && dz <= visionRange // Check if food is within 5x5 area
-              })
-              
-              if (nearbyFood.length > 0) {
-                // Found food nearby, eat it immediately
-                const nearestFood = nearbyFood[0]
-                
-                // Mark food as eaten
-                get().updateFood(nearestFood.id, {
-                  isAvailable: false,
-                  lastEaten: state.gameTime
-                })
-                
-                // Add 1 to hunger when eating food
-                newHunger = Math.min(100, creature.hunger + 1)
-                newState = newHunger > 50 ? 'full' : 'hungry'
-                get().updateCreature(creature.id, {
-                  lastStateChange: state.gameTime,
-                  targetFoodId: undefined
-                })
-                
-                console.log(`Goose ${creature.id} ate food ${nearestFood.id}, hunger: ${newHunger}`)
-              } else {
-                // No food nearby, random movement (increased movement frequency)
-                if (Math.random() < 0.08) { // 8% chance to change direction (4x more frequent)
-                  const wallBoundary = 49
-                  const randomX = creature.position.x + (Math.random() - 0.5) * 15 // Larger movement range
-                  const randomZ = creature.position.z + (Math.random() - 0.5) * 15
-                  
-                  // Clamp to wall boundaries
-                  const clampedX = Math.max(-wallBoundary, Math.min(wallBoundary, randomX))
-                  const clampedZ = Math.max(-wallBoundary, Math.min(wallBoundary, randomZ))
-                  
-                  newTargetPosition = {
-                    x: clampedX,
-                    y: 0.5,
-                    z: clampedZ
-                  }
-                  isMoving = true
-                }
-              }
-            } else {
-              // Hunger is above threshold, don't eat, just do random movement (increased)
-              if (Math.random() < 0.06) { // 6% chance to change direction (3x more frequent)
-                const wallBoundary = 49
-                const randomX = creature.position.x + (Math.random() - 0.5) * 12 // Larger movement range
-                const randomZ = creature.position.z + (Math.random() - 0.5) * 12
-                
-                // Clamp to wall boundaries
-                const clampedX = Math.max(-wallBoundary, Math.min(wallBoundary, randomX))
-                const clampedZ = Math.max(-wallBoundary, Math.min(wallBoundary, randomZ))
-                
-                newTargetPosition = {
-                  x: clampedX,
-                  y: 0.5,
-                  z: clampedZ
-                }
-                isMoving = true
-              }
-            }
-          } else if (newState === 'eating') {
-            // Eat and automatically transition to full after 2 seconds
-            if (creature.targetFoodId) {
-              const targetFood = state.food.find(f => f.id === creature.targetFoodId)
-              if (targetFood && targetFood.isAvailable) {
-                // Check if creature should stop eating (hunger too high or no food nearby)
-                const stopEatingThreshold = 70 + Math.random() * 30 // Random threshold between 70-100
-                const visionRange = 5 * (creature.vision / 100)
-                const nearbyFood = state.food.filter(food => {
-                  if (!food.isAvailable) return false
-                  const dx = Math.abs(food.position.x - creature.position.x)
-                  const dz = Math.abs(food.position.z - creature.position.z)
-                  return dx <= visionRange && dz <= visionRange
-                })
-                
-                if (creature.hunger >= stopEatingThreshold || nearbyFood.length === 0) {
-                  // Stop eating - hunger too high or no food nearby
-                  newState = creature.hunger > 50 ? 'full' : 'hungry'
-                  get().updateCreature(creature.id, { 
-                    targetFoodId: undefined,
-                    state: newState
-                  })
-                  console.log(`Creature ${creature.id} stopped eating - hunger: ${creature.hunger}, nearby food: ${nearbyFood.length}`)
-                  return
-                }
-                const timeEating = state.gameTime - creature.lastStateChange
-                
-                if (timeEating >= 2000) { // 2 seconds = 2000ms
-                  // Finished eating, add 1 to hunger
-                  newHunger = Math.min(100, creature.hunger + 1)
-                  newState = newHunger > 50 ? 'full' : 'hungry'
-                  get().updateCreature(creature.id, { 
-                    lastStateChange: state.gameTime,
-                    targetFoodId: undefined
-                  })
-                  
-                  // Mark food as eaten
-                  get().updateFood(targetFood.id, {
-                    isAvailable: false,
-                    lastEaten: state.gameTime
-                  })
-                  
-                  console.log(`Goose ${creature.id} finished eating after 2 seconds, hunger: ${newHunger}`)
-                } else {
-                  // Still eating, keep in eating state
-                  newState = 'eating'
-                }
-              } else {
-                // Food is no longer available, go back to hungry state
-                newState = 'hungry'
-                get().updateCreature(creature.id, { 
-                  targetFoodId: undefined,
-                  state: 'hungry'
-                })
-              }
-            }
-          } else if (newState === 'full') {
-            // Check for breeding opportunities
-            const canBreed = state.gameTime - creature.lastBreedingTime > creature.breedingCooldown
-            
-            // Debug logging for breeding
-            if (canBreed && Math.random() < 0.01) { // 1% chance to log for debugging
-              console.log(`Creature ${creature.id} can breed, looking for partners...`)
-            } else if (!canBreed && Math.random() < 0.001) { // 0.1% chance to log cooldown
-              const timeLeft = creature.breedingCooldown - (state.gameTime - creature.lastBreedingTime)
-              console.log(`Creature ${creature.id} on breeding cooldown, ${Math.round(timeLeft)}ms left`)
-            }
-            
-            if (canBreed) {
-              // Look for other full creatures nearby for breeding using vision-based area
-              const visionRange = 10 * (creature.vision / 100) // 10x10 area scaled by vision (0-10 units) - increased for breeding
-              const nearbyCreatures = state.creatures.filter(other => {
-                if (other.id === creature.id || other.isDead || other.state !== 'full') return false
-                
-                const dx = Math.abs(other.position.x - creature.position.x)
-                const dz = Math.abs(other.position.z - creature.position.z)
-                
-                return dx <= visionRange && dz <= visionRange // Check if creature is within vision-based area
-              })
-              
-              // Debug logging for nearby creatures
-              if (Math.random() < 0.005) { // 0.5% chance to log for debugging
-                console.log(`Creature ${creature.id} found ${nearbyCreatures.length} potential breeding partners`)
-              }
-              
-              if (nearbyCreatures.length > 0) {
-                // Found a breeding partner
-                const partner = nearbyCreatures[0]
-                
-                // Check if partner can also breed
-                if (state.gameTime - partner.lastBreedingTime > partner.breedingCooldown) {
-                  // Start breeding
-                  newState = 'breeding'
-                  isMoving = false
-                  newTargetPosition = undefined
-                  
-                  // Update both creatures to breeding state
-                  get().updateCreature(creature.id, {
-                    state: 'breeding',
-                    lastStateChange: state.gameTime,
-                    isMoving: false,
-                    targetPosition: undefined
-                  })
-                  
-                  get().updateCreature(partner.id, {
-                    state: 'breeding',
-                    lastStateChange: state.gameTime,
-                    isMoving: false,
-                    targetPosition: undefined
-                  })
-                  
-                  console.log(`Creatures ${creature.id} and ${partner.id} started breeding!`)
-                  console.log(`Creature ${creature.id} hunger: ${creature.hunger}, partner ${partner.id} hunger: ${partner.hunger}`)
-                }
-              } else {
-                // No breeding partner found, do random idle behavior (increased movement)
-                if (Math.random() < 0.04) { // 4% chance to move (4x more frequent)
-                  const wallBoundary = 49
-                  const randomX = creature.position.x + (Math.random() - 0.5) * 8 // Larger movement range
-                  const randomZ = creature.position.z + (Math.random() - 0.5) * 8
-                  
-                  // Clamp to wall boundaries
-                  const clampedX = Math.max(-wallBoundary, Math.min(wallBoundary, randomX))
-                  const clampedZ = Math.max(-wallBoundary, Math.min(wallBoundary, randomZ))
-                  
-                  newTargetPosition = {
-                    x: clampedX,
-                    y: 0.5,
-                    z: clampedZ
-                  }
-                  isMoving = true
-                }
-              }
-            } else {
-              // On breeding cooldown, do random idle behavior (increased movement)
-              if (Math.random() < 0.04) { // 4% chance to move (4x more frequent)
-                const wallBoundary = 49
-                const randomX = creature.position.x + (Math.random() - 0.5) * 8 // Larger movement range
-                const randomZ = creature.position.z + (Math.random() - 0.5) * 8
-                
-                // Clamp to wall boundaries
-                const clampedX = Math.max(-wallBoundary, Math.min(wallBoundary, randomX))
-                const clampedZ = Math.max(-wallBoundary, Math.min(wallBoundary, randomZ))
-                
-                newTargetPosition = {
-                  x: clampedX,
-                  y: 0.5,
-                  z: clampedZ
-                }
-                isMoving = true
-              }
-            }
-          } else if (newState === 'breeding') {
-            // Handle breeding state
-            const breedingDuration = 1500 // 1.5 seconds of breeding
-            const timeBreeding = state.gameTime - creature.lastStateChange
-            
-            // Debug logging for breeding state
-            if (Math.random() < 0.01) { // 1% chance to log for debugging
-              console.log(`Creature ${creature.id} breeding, ${Math.round(breedingDuration - timeBreeding)}ms left`)
-            }
-            
-            if (timeBreeding >= breedingDuration) {
-              // Breeding complete, create a new creature
-              const babyHunger = 40 + Math.random() * 20 // Start moderately hungry (40-60)
-              const babyState = babyHunger > 50 ? 'full' : 'hungry' // State depends on hunger
-              
-              const babyCreature: Omit<Creature, 'id'> = {
-                type: 'goose',
-                position: {
-                  x: creature.position.x + (Math.random() - 0.5) * 2, // Spawn near parent
-                  y: 0,
-                  z: creature.position.z + (Math.random() - 0.5) * 2
-                },
-                rotation: { x: 0, y: 0, z: 0 },
-                scale: { x: 0.7, y: 0.7, z: 0.7 }, // Smaller baby
-                health: 100,
-                energy: 100,
-                isMoving: false,
-                isIdle: true,
-                idleAnimation: 0,
-                vision: Math.max(30, Math.min(90, creature.vision + (Math.random() - 0.5) * 20)), // Inherit with variation
-                hunger: babyHunger,
-                speed: Math.max(20, Math.min(80, creature.speed + (Math.random() - 0.5) * 20)), // Inherit with variation
-                intelligence: Math.max(10, Math.min(90, creature.intelligence + (Math.random() - 0.5) * 20)), // Inherit with variation
-                state: babyState,
-                lastStateChange: state.gameTime,
-                lastBreedingTime: 0,
-                breedingCooldown: 5000,
-                isDead: false
-              }
-              
-              get().addCreature(babyCreature)
-              
-              // Reset both parents with moderate hunger boost
-              newHunger = Math.min(100, creature.hunger + 20) // Add 20 to hunger after breeding
-              newState = newHunger > 50 ? 'full' : 'hungry'
-              get().updateCreature(creature.id, {
-                lastStateChange: state.gameTime,
-                lastBreedingTime: state.gameTime, // Set breeding cooldown
-                isMoving: false,
-                targetPosition: undefined
-              })
-              
-              // Find and update the partner
-              const partner = state.creatures.find(c => 
-                c.id !== creature.id && 
-                !c.isDead && 
-                c.state === 'breeding' &&
-                Math.abs(c.position.x - creature.position.x) < 5 &&
-                Math.abs(c.position.z - creature.position.z) < 5
-              )
-              
-              if (partner) {
-                const partnerHunger = Math.min(100, partner.hunger + 20) // Add 20 to hunger after breeding
-                const partnerState = partnerHunger > 50 ? 'full' : 'hungry'
-                get().updateCreature(partner.id, {
-                  hunger: partnerHunger,
-                  state: partnerState,
-                  lastStateChange: state.gameTime,
-                  lastBreedingTime: state.gameTime, // Set breeding cooldown
-                  isMoving: false,
-                  targetPosition: undefined
-                })
-              }
-              
-              console.log(`Breeding complete! New baby goose created from ${creature.id}`)
-            }
-          }
-          
-          // Move towards target if we have one
-          if (newTargetPosition) {
-            const dx = newTargetPosition.x - creature.position.x
-            const dz = newTargetPosition.z - creature.position.z
-            const distance = Math.sqrt(dx * dx + dz * dz)
-            
-            if (distance < 0.5) {
-              // Reached target
-              if (creature.targetFoodId) {
-                // Reached food, start eating
-                newState = 'eating'
-                newTargetPosition = undefined
-                isMoving = false
-                get().updateCreature(creature.id, { 
-                  lastStateChange: state.gameTime,
-                  state: 'eating'
-                })
-                console.log(`Creature ${creature.id} reached food ${creature.targetFoodId}, starting to eat`)
-              } else {
-                // Reached random target
-                newTargetPosition = undefined
-                isMoving = false
-              }
-            } else {
-              // Move towards target
-              const moveSpeed = creature.speed / 100 * deltaTime
-              const moveX = (dx / distance) * moveSpeed
-              const moveZ = (dz / distance) * moveSpeed
-              
-              // Calculate new position
-              const proposedX = newPosition.x + moveX
-              const proposedZ = newPosition.z + moveZ
-              
-              // Check wall boundaries (keeping creatures within -49 to 49 range)
-              const wallBoundary = 49
-              if (proposedX >= -wallBoundary && proposedX <= wallBoundary) {
-                newPosition.x = proposedX
-              } else {
-                // Hit a wall, stop moving in X direction and clear target
-                newTargetPosition = undefined
-                isMoving = false
-              }
-              
-              if (proposedZ >= -wallBoundary && proposedZ <= wallBoundary) {
-                newPosition.z = proposedZ
-              } else {
-                // Hit a wall, stop moving in Z direction and clear target
-                newTargetPosition = undefined
-                isMoving = false
-              }
-            }
-          }
-          
-
-          
-          // Update creature
-          get().updateCreature(creature.id, {
-            idleAnimation: newIdleAnimation,
-            hunger: newHunger,
-            state: newState,
-            targetPosition: newTargetPosition,
-            isMoving,
-            position: newPosition,
-            rotation: {
-              x: creature.rotation.x,
-              y: creature.rotation.y,
-              z: creature.rotation.z
-            }
-          })
-        })
-        
-
-        
-        // Simulate food respawning (quick respawn)
-        state.food.forEach(food => {
-          if (!food.isAvailable && state.gameTime - food.lastEaten > 1500) { // 1.5 seconds respawn time
-            get().updateFood(food.id, {
-              isAvailable: true
-            })
-            console.log(`Food ${food.id} has respawned`)
-          }
-        })
-        
-        // Constant food generation (new food spawns randomly)
-        if (Math.random() < 0.005) { // 0.5% chance per frame to spawn new food (4x slower)
-          const wallBoundary = 45 // Keep food away from walls
-          const randomX = (Math.random() - 0.5) * wallBoundary * 2
-          const randomZ = (Math.random() - 0.5) * wallBoundary * 2
-          
-          get().addFood({
-            position: { x: randomX, y: -2.8, z: randomZ },
-            type: 'tulip',
-            isAvailable: true,
-            nutritionValue: 40, // Increased nutrition value for new food
-            respawnTime: 1500,
-            lastEaten: 0
-          })
-          
-          console.log(`New food spawned at (${randomX.toFixed(1)}, ${randomZ.toFixed(1)})`)
-        }
-        
-        // Update environment
-        const timeOfDay = Math.floor((state.gameTime / 1000) % 4)
-        const timeOfDayMap = ['morning', 'afternoon', 'evening', 'night'] as const
-        get().updateEnvironment({
-          timeOfDay: timeOfDayMap[timeOfDay],
-          lightLevel: timeOfDay === 0 ? 80 : timeOfDay === 1 ? 100 : timeOfDay === 2 ? 60 : 20
-        })
+
+      exportSnapshot: () => createSnapshot(selectWorld(get()), get().speed),
+
+      // Snapshots arrive already migrated to the current version
+      loadSnapshot: (snapshot) => set({
+        ...snapshot.world,
+        ...startTimeline(snapshot.world),
+        speed: snapshot.speed,
+        nextSeed: snapshot.world.seed,
+        selectedEntity: null,
+        ...startMetrics(snapshot.world)
+      }),
+
+      scrubTo: (gameTime) => {
+        const index = frameIndexAt(timeline, gameTime)
+        set({ ...worldAt(timeline, index), replayIndex: index })
       },
-      
-      spawnCreature: () => {
+
+      branchFromReplay: () => {
+        const { replayIndex } = get()
+        if (replayIndex === null) return
+        truncateTimeline(timeline, replayIndex)
+        const branchTime = timeline.head.gameTime
+        truncateHistory(metricsHistory, branchTime)
+        set((state) => ({
+          replayIndex: null,
+          timelineEnd: branchTime,
+          metrics: state.metrics.filter(sample => sample.gameTime <= branchTime)
+        }))
+      },
+
+      exitReplay: () => {
+        if (get().replayIndex === null) return
+        set({ ...timeline.head, replayIndex: null })
+      },
+
+      setMetricsInterval: (ticks) => set({ metricsInterval: Math.max(1, Math.round(ticks)) }),
+
+      exportRun: () => exportRun(selectWorld(get()), metricsHistory),
+
+      // Every tick advances the same fixed amount of game time; speed only
+      // changes how many ticks the game loop asks for per real second
+      step: (ticks = 1) => {
         const state = get()
-        const initialHunger = 30 + Math.random() * 40 // Start with moderate hunger (30-70)
-        const initialState = initialHunger > 50 ? 'full' : 'hungry' // State depends on hunger
-        
-        const creature: Omit<Creature, 'id'> = {
-          type: 'goose',
-          position: getRandomPosition(),
-          rotation: { x: 0, y: 0, z: 0 },
-          scale: { x: 1, y: 1, z: 1 },
-          health: 100,
-          energy: 100,
-          isMoving: false,
-          isIdle: true,
-          idleAnimation: 0,
-          vision: 50 + Math.random() * 30, // 50-80
-          hunger: initialHunger,
-          speed: 30 + Math.random() * 40, // 30-70
-          intelligence: 20 + Math.random() * 60, // 20-80
-          state: initialState, // State is now dependent on hunger
-          lastStateChange: state.gameTime,
-          lastBreedingTime: 0, // Never bred before
-          breedingCooldown: 5000, // 5 second cooldown
-          isDead: false
+        let world = selectWorld(state)
+
+        // While replaying, ticks play back recorded frames; reaching the
+        // newest frame hands over to the live simulation
+        if (state.replayIndex !== null) {
+          const endIndex = timelineEndIndex(timeline)
+          let index = state.replayIndex
+          for (let i = 0; i < ticks && index < endIndex; i++) {
+            index++
+            world = advanceReplay(timeline, world, index)
+          }
+          set({ ...world, replayIndex: index < endIndex ? index : null })
+          return
         }
-        get().addCreature(creature)
-        console.log(`Spawned goose with hunger: ${creature.hunger}, state: ${creature.state}`)
-        
-        // Spawn a second creature nearby to increase breeding chances
-        if (state.creatures.length === 1) { // Only spawn second creature if this is the first one
-          const secondCreature: Omit<Creature, 'id'> = {
-            ...creature,
-            position: {
-              x: creature.position.x + (Math.random() - 0.5) * 4, // Spawn nearby
-              y: creature.position.y,
-              z: creature.position.z + (Math.random() - 0.5) * 4
-            },
-            vision: 50 + Math.random() * 30,
-            hunger: 30 + Math.random() * 40,
-            state: (30 + Math.random() * 40) > 50 ? 'full' : 'hungry'
+
+        let metrics = state.metrics
+        for (let i = 0; i < ticks; i++) {
+          const result = stepWorld(world, TICK_DELTA)
+          world = result.world
+          recordFrame(timeline, world)
+
+          // Sample every metricsInterval ticks of game time
+          if (Math.round(world.gameTime / TICK_DELTA) % state.metricsInterval === 0) {
+            const sample = sampleWorld(world, metrics[metrics.length - 1])
+            metrics = [...metrics.slice(-(MAX_METRICS_SAMPLES - 1)), sample]
+            recordSample(metricsHistory, sample)
           }
-          get().addCreature(secondCreature)
-          console.log(`Spawned second goose nearby with hunger: ${secondCreature.hunger}, state: ${secondCreature.state}`)
         }
+        set({ ...world, metrics, timelineStart: timelineStartTime(timeline), timelineEnd: world.gameTime })
       },
-      
-      // Initialize food automatically
-      initializeFood: () => {
-        const state = get()
-        if (state.food.length > 0) return // Don't initialize if food already exists
-        
-        // Create food at tulip positions
-        const tulipPositions: [number, number, number][] = [
-          [3, -2.8, 4], [4, -2.8, 3], [2, -2.8, 5], [-3, -2.8, 6], [-4, -2.8, 5], [-2, -2.8, 4],
-          [7, -2.8, -3], [8, -2.8, -2], [6, -2.8, -4], [-7, -2.8, -5], [-8, -2.8, -4], [-6, -2.8, -6],
-          [0, -2.8, 8], [1, -2.8, 7], [-1, -2.8, 9],
-          [5, -2.8, 6], [6, -2.8, 5], [4, -2.8, 7], [-5, -2.8, 8], [-6, -2.8, 7], [-4, -2.8, 6],
-          [9, -2.8, -1], [10, -2.8, 0], [8, -2.8, -2], [-9, -2.8, -3], [-10, -2.8, -2], [-8, -2.8, -4],
-          [2, -2.8, 10], [3, -2.8, 9], [1, -2.8, 11]
-        ]
-        
-        tulipPositions.forEach(([x, y, z]) => {
-          get().addFood({
-            position: { x, y, z },
-            type: 'tulip',
-            isAvailable: true,
-            nutritionValue: 40, // Increased nutrition value so they can survive longer
-            respawnTime: 1500, // 1.5 seconds
-            lastEaten: 0
-          })
-        })
-        
-        console.log(`Initialized ${tulipPositions.length} food items`)
+
+      spawnCreature: (type = 'goose') => {
+        get().branchFromReplay()
+        set((state) => spawnCreature(selectWorld(state), type))
+      },
+
+      scatterFood: (count) => {
+        get().branchFromReplay()
+        set((state) => scatterFood(selectWorld(state), count))
       }
     })
   )
-) 
\ No newline at end of file
+)
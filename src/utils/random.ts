@@ -0,0 +1,42 @@
+// Seedable pseudo-random number generator (mulberry32)
+// Small, fast and good enough for simulation decisions. The whole generator
+// state is a single 32-bit integer so it can live in plain store state.
+
+export interface Rng {
+  next: () => number // 0 (inclusive) to 1 (exclusive), like Math.random()
+  range: (min: number, max: number) => number
+  chance: (probability: number) => boolean
+  getState: () => number
+}
+
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0
+
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0
+    let t = s
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    chance: (probability) => next() < probability,
+    getState: () => s
+  }
+}
+
+// Derive an independent stream from a seed, e.g. one for scenery and one for
+// the simulation, so adding a tree doesn't shift every creature decision
+export const deriveSeed = (seed: number, stream: string): number => {
+  let h = (seed ^ 0x9e3779b9) >>> 0
+  for (let i = 0; i < stream.length; i++) {
+    h = Math.imul(h ^ stream.charCodeAt(i), 0x01000193) >>> 0
+  }
+  return h
+}
+
+// A fresh seed for new worlds; this is the only place Math.random() is allowed
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff) >>> 0